@@ -0,0 +1,199 @@
+import { isDeepStrictEqual } from "node:util";
+import { findPrices, knownAmounts } from "@/lib/grounding";
+
+export interface ToolCallRecord {
+    toolCallId: string;
+    toolName: string;
+    args: Record<string, unknown>;
+    result?: unknown;
+}
+
+/** What the chat route sent back for one user message. */
+export interface TurnResult {
+    status: number;
+    text: string;
+    toolCalls: ToolCallRecord[];
+    promptVersion?: string;
+    error?: string;
+}
+
+export interface Expectation {
+    // Argument values at least one searchListings call must use. Arrays
+    // match in any order; keys left out are not checked. Live runs only:
+    // a scripted call uses whatever arguments the scenario wrote.
+    searchListings?: Record<string, unknown>;
+    // Tools that must be called, and tools that must not be.
+    tools?: string[];
+    forbiddenTools?: string[];
+    // Whether the answer declines the request.
+    refusal?: boolean;
+    // Patterns the answer must contain.
+    mentions?: RegExp[];
+    // The answer ends by asking the user something.
+    followUp?: boolean;
+    language?: "en" | "ar";
+}
+
+export interface CheckResult {
+    name: string;
+    passed: boolean;
+    detail?: string;
+}
+
+const TOOL_NAMES = [
+    "searchListings",
+    "getListingDetails",
+    "checkAvailability",
+    "compareListings",
+    "resolveEntities",
+    "addToItinerary",
+    "removeFromItinerary",
+    "reorderItinerary",
+    "searchFaq",
+    "lookupPrivacySection",
+];
+
+const REFUSAL_PATTERN =
+    /\b(sorry|can only help|only (help|assist) with|can't help with|cannot help with|outside (of )?(what|my))\b|عذراً|عذرا|يمكنني المساعدة فقط/i;
+
+// A question mark, allowing closing quotes and markdown after it.
+const FOLLOW_UP_PATTERN = /[?؟][\s"'*_)❞]*$/;
+
+function sameValue(actual: unknown, expected: unknown): boolean {
+    if (Array.isArray(actual) && Array.isArray(expected)) {
+        const sort = (values: unknown[]) =>
+            values.map((value) => JSON.stringify(value)).sort();
+        return isDeepStrictEqual(sort(actual), sort(expected));
+    }
+    return isDeepStrictEqual(actual, expected);
+}
+
+export function matchesArgs(
+    args: Record<string, unknown>,
+    expected: Record<string, unknown>
+) {
+    return Object.entries(expected).every(([key, value]) =>
+        sameValue(args[key], value)
+    );
+}
+
+/**
+ * Prices in the answer that appear in neither the turn's tool results nor
+ * the user's own messages ("under $50" may be repeated back).
+ */
+export function ungroundedPrices(turn: TurnResult, userTexts: string[]) {
+    const known = knownAmounts(
+        turn.toolCalls.map(({ result }) => result),
+        userTexts
+    );
+    const isKnown = (amount: number) =>
+        [...known].some(
+            (value) =>
+                Math.abs(value - amount) < 0.01 ||
+                Math.round(value) === amount
+        );
+    return findPrices(turn.text)
+        .filter(({ amount }) => !isKnown(amount))
+        .map(({ text }) => text);
+}
+
+export function isRefusal(text: string) {
+    return REFUSAL_PATTERN.test(text);
+}
+
+function check(name: string, passed: boolean, detail?: string): CheckResult {
+    return passed ? { name, passed } : { name, passed, detail };
+}
+
+/**
+ * Runs the scenario's expectations, plus the checks every answer must pass:
+ * it exists, it is grounded in tool output and it never names a tool.
+ */
+export function evaluate(
+    turn: TurnResult,
+    expect: Expectation,
+    userTexts: string[],
+    { live }: { live: boolean }
+): CheckResult[] {
+    const called = turn.toolCalls.map(({ toolName }) => toolName);
+    const searches = turn.toolCalls.filter(
+        ({ toolName }) => toolName === "searchListings"
+    );
+    const results = [
+        check(
+            "answers",
+            turn.status === 200 && !turn.error && turn.text.trim() !== "",
+            turn.error ?? `status ${turn.status}, ${turn.text.length} chars`
+        ),
+    ];
+
+    const ungrounded = ungroundedPrices(turn, userTexts);
+    results.push(
+        check(
+            "grounded prices",
+            ungrounded.length === 0,
+            `not in tool output: ${ungrounded.join(", ")}`
+        )
+    );
+    const named = TOOL_NAMES.filter((name) => turn.text.includes(name));
+    results.push(
+        check(
+            "no tool names",
+            named.length === 0,
+            `mentions ${named.join(", ")}`
+        )
+    );
+
+    if (expect.searchListings && live) {
+        const got = searches.map(({ args }) => JSON.stringify(args));
+        results.push(
+            check(
+                "searchListings args",
+                searches.some(({ args }) =>
+                    matchesArgs(args, expect.searchListings!)
+                ),
+                searches.length === 0
+                    ? "searchListings was not called"
+                    : `got ${got.join(" | ")}`
+            )
+        );
+    }
+    for (const name of expect.tools ?? []) {
+        results.push(
+            check(
+                `calls ${name}`,
+                called.includes(name),
+                `called ${called.join(", ") || "nothing"}`
+            )
+        );
+    }
+    for (const name of expect.forbiddenTools ?? []) {
+        results.push(check(`skips ${name}`, !called.includes(name)));
+    }
+    if (expect.refusal !== undefined) {
+        results.push(
+            check(
+                expect.refusal ? "declines" : "does not decline",
+                isRefusal(turn.text) === expect.refusal
+            )
+        );
+    }
+    for (const pattern of expect.mentions ?? []) {
+        results.push(check(`mentions ${pattern}`, pattern.test(turn.text)));
+    }
+    if (expect.followUp) {
+        results.push(
+            check("asks a follow-up", FOLLOW_UP_PATTERN.test(turn.text.trim()))
+        );
+    }
+    if (expect.language) {
+        const arabic = /[؀-ۿ]/.test(turn.text);
+        results.push(
+            check(
+                `answers in ${expect.language}`,
+                arabic === (expect.language === "ar")
+            )
+        );
+    }
+    return results;
+}
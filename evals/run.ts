@@ -0,0 +1,244 @@
+/**
+ * Replays the scenarios in `evals/scenarios.ts` against the chat route with
+ * the fixture backend, checks every answer and writes a Markdown report
+ * meant to be committed and diffed.
+ *
+ *   npm run eval                              scripted model, deterministic
+ *   npm run eval -- --live                    the model configured in env
+ *   npm run eval -- --only faq-question,sort-unsupported
+ *   npm run eval -- --report evals/live-report.md
+ *
+ * Exits with status 1 when any check fails.
+ */
+import { writeFile } from "node:fs/promises";
+import { parseArgs } from "node:util";
+import { generateId, processDataStream, type Message } from "ai";
+import type { Script } from "@/lib/llm/scripted-model";
+import {
+    evaluate,
+    type CheckResult,
+    type ToolCallRecord,
+    type TurnResult,
+} from "./checks";
+import { scenarios, type Scenario, type ScenarioTurn } from "./scenarios";
+
+interface ScenarioResult {
+    scenario: Scenario;
+    turns: TurnResult[];
+    checks: CheckResult[];
+    passed: boolean;
+}
+
+type ChatHandler = (req: Request) => Promise<Response>;
+
+const { values: options } = parseArgs({
+    options: {
+        live: { type: "boolean", default: false },
+        only: { type: "string" },
+        report: { type: "string", default: "evals/report.md" },
+    },
+});
+
+// Set before the app modules load: the backend client and logger read
+// them once. Rate limits would otherwise cut a full run short.
+process.env.ITHAKA_API_MODE = "mock";
+process.env.LOG_LEVEL ??= "error";
+process.env.CHAT_RATE_LIMIT_IP = "100000";
+process.env.CHAT_RATE_LIMIT_SESSION = "100000";
+
+const TIME_ZONE = "Africa/Cairo";
+
+/** Plays the scenario's turns in order, one per model call. */
+function playScript(turns: ScenarioTurn[]): Script {
+    let next = 0;
+    return (callOptions) => {
+        const turn = turns[next++] ?? { text: "" };
+        return typeof turn === "function" ? turn(callOptions) : turn;
+    };
+}
+
+async function sendTurn(
+    handler: ChatHandler,
+    messages: Message[]
+): Promise<TurnResult> {
+    const res = await handler(
+        new Request("http://localhost/api/chat", {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ messages, timeZone: TIME_ZONE }),
+        })
+    );
+    const turn: TurnResult = {
+        status: res.status,
+        text: "",
+        toolCalls: [],
+        promptVersion: res.headers.get("X-Prompt-Version") ?? undefined,
+    };
+    if (!res.ok || !res.body) {
+        turn.error = await res.text();
+        return turn;
+    }
+
+    const calls = new Map<string, ToolCallRecord>();
+    await processDataStream({
+        stream: res.body,
+        onTextPart: (value) => {
+            turn.text += value;
+        },
+        onToolCallPart: (value) => {
+            const call = {
+                toolCallId: value.toolCallId,
+                toolName: value.toolName,
+                args: value.args as Record<string, unknown>,
+            };
+            calls.set(call.toolCallId, call);
+            turn.toolCalls.push(call);
+        },
+        onToolResultPart: (value) => {
+            const call = calls.get(value.toolCallId);
+            if (call) call.result = value.result;
+        },
+        onErrorPart: (value) => {
+            turn.error = value;
+        },
+    });
+    return turn;
+}
+
+function assistantMessage(turn: TurnResult): Message {
+    return {
+        id: generateId(),
+        role: "assistant",
+        content: turn.text,
+        toolInvocations: turn.toolCalls.map((call) => ({
+            state: "result" as const,
+            ...call,
+            result: call.result,
+        })),
+    };
+}
+
+async function runScenario(
+    handler: ChatHandler,
+    scenario: Scenario
+): Promise<ScenarioResult> {
+    const messages: Message[] = [];
+    const turns: TurnResult[] = [];
+    for (const content of scenario.turns) {
+        messages.push({ id: generateId(), role: "user", content });
+        const turn = await sendTurn(handler, messages);
+        turns.push(turn);
+        messages.push(assistantMessage(turn));
+    }
+    const checks = evaluate(
+        turns[turns.length - 1],
+        scenario.expect,
+        [...scenario.turns],
+        { live: options.live! }
+    );
+    return {
+        scenario,
+        turns,
+        checks,
+        passed: checks.every(({ passed }) => passed),
+    };
+}
+
+function quote(text: string) {
+    return text
+        .trim()
+        .split("\n")
+        .map((line) => `> ${line}`.trimEnd())
+        .join("\n");
+}
+
+function formatReport(results: ScenarioResult[], model: string) {
+    const passed = results.filter((result) => result.passed).length;
+    const lines = [
+        "# Eval report",
+        "",
+        `Model: ${model}. ${passed} of ${results.length} scenarios passed.`,
+        ...(options.live
+            ? []
+            : [
+                  "",
+                  "searchListings arguments are only checked with `--live`: scripted calls use the scenario's own.",
+              ]),
+        "",
+        "| Scenario | Result | Failed checks |",
+        "| --- | --- | --- |",
+        ...results.map(
+            ({ scenario, checks, passed }) =>
+                `| ${scenario.id} | ${passed ? "pass" : "FAIL"} | ${
+                    checks
+                        .filter((check) => !check.passed)
+                        .map(({ name }) => name)
+                        .join(", ") || "-"
+                } |`
+        ),
+    ];
+
+    for (const { scenario, turns, checks, passed } of results) {
+        lines.push(
+            "",
+            `## ${scenario.id}: ${passed ? "pass" : "FAIL"}`,
+            "",
+            scenario.description + "."
+        );
+        scenario.turns.forEach((content, index) => {
+            const turn = turns[index];
+            lines.push("", `**User:** ${content}`, "");
+            for (const { toolName, args } of turn.toolCalls) {
+                lines.push(`- \`${toolName}\` \`${JSON.stringify(args)}\``);
+            }
+            if (turn.toolCalls.length > 0) lines.push("");
+            lines.push(quote(turn.text || turn.error || "(no answer)"));
+        });
+        const version = turns[turns.length - 1].promptVersion;
+        lines.push("", `Prompt: \`${version ?? "none"}\``, "");
+        for (const { name, passed, detail } of checks) {
+            lines.push(
+                `- [${passed ? "x" : " "}] ${name}${detail ? `: ${detail}` : ""}`
+            );
+        }
+    }
+    return lines.join("\n") + "\n";
+}
+
+async function main() {
+    const { POST } = await import("@/app/api/chat/route");
+    const { setChatModel } = await import("@/lib/llm/registry");
+    const { createScriptedModel } = await import("@/lib/llm/scripted-model");
+
+    const only = options.only?.split(",").map((id) => id.trim());
+    const selected = only
+        ? scenarios.filter(({ id }) => only.includes(id))
+        : scenarios;
+
+    const results: ScenarioResult[] = [];
+    for (const scenario of selected) {
+        setChatModel(
+            options.live
+                ? undefined
+                : createScriptedModel(playScript(scenario.script))
+        );
+        const result = await runScenario(POST, scenario);
+        console.log(`${result.passed ? "pass" : "FAIL"}  ${scenario.id}`);
+        results.push(result);
+    }
+
+    const model = options.live
+        ? `${process.env.LLM_PROVIDER ?? "gemini"} ${process.env.LLM_MODEL ?? ""}`.trim()
+        : "scripted";
+    await writeFile(options.report!, formatReport(results, model));
+    const failed = results.filter(({ passed }) => !passed).length;
+    console.log(
+        `${results.length - failed} of ${results.length} passed; report in ${options.report}`
+    );
+    process.exit(failed > 0 ? 1 : 0);
+}
+
+main().catch((error) => {
+    console.error(error);
+    process.exit(1);
+});
@@ -0,0 +1,255 @@
+import type { ScriptedTurn } from "@/lib/llm/scripted-model";
+import type { CallOptions } from "@/lib/llm/types";
+import type { Expectation } from "./checks";
+import { citeSections, listResults } from "./script-helpers";
+
+/** One model call's answer, fixed or worked out from the prompt. */
+export type ScenarioTurn =
+    | ScriptedTurn
+    | ((options: CallOptions) => ScriptedTurn);
+
+export interface Scenario {
+    id: string;
+    description: string;
+    // User messages, sent one request at a time with the history so far.
+    // Expectations apply to the answer to the last one.
+    turns: string[];
+    // What a well-behaved model answers, played back with the scripted
+    // model. `--live` ignores it and asks the configured model instead.
+    script: ScenarioTurn[];
+    expect: Expectation;
+}
+
+export const scenarios: Scenario[] = [
+    {
+        id: "sort-unsupported",
+        description: "An unsupported sort gets a question about the valid ones",
+        turns: ["Show me tours in Cairo sorted by most famous"],
+        script: [
+            {
+                text: "Would you like me to sort tours in Cairo by best-selling or top-reviewed?",
+            },
+        ],
+        expect: {
+            mentions: [/best[- ]selling/i, /top[- ]reviewed/i],
+            followUp: true,
+            refusal: false,
+        },
+    },
+    {
+        id: "sort-top-reviewed",
+        description: "A supported sort is passed straight through",
+        turns: ["What are the top-reviewed things to do in Luxor?"],
+        script: [
+            {
+                toolCalls: [
+                    {
+                        toolName: "searchListings",
+                        args: { destinations: [4], sort_by: "top-reviewed" },
+                    },
+                ],
+            },
+            listResults,
+        ],
+        expect: {
+            searchListings: { destinations: [4], sort_by: "top-reviewed" },
+        },
+    },
+    {
+        id: "category-synonym",
+        description: "\"Extreme adventure\" is matched to the Adventure category",
+        turns: ["I want an extreme adventure in Dahab"],
+        script: [
+            {
+                toolCalls: [
+                    {
+                        toolName: "searchListings",
+                        args: { destinations: [6], categories: [1] },
+                    },
+                ],
+            },
+            listResults,
+        ],
+        expect: {
+            searchListings: { destinations: [6], categories: [1] },
+            followUp: true,
+        },
+    },
+    {
+        id: "category-water-sports",
+        description: "Snorkelling is matched to the Water Sports category",
+        turns: ["Any snorkelling trips in Hurghada?"],
+        script: [
+            {
+                toolCalls: [
+                    {
+                        toolName: "searchListings",
+                        args: { destinations: [7], categories: [4] },
+                    },
+                ],
+            },
+            listResults,
+        ],
+        expect: {
+            searchListings: { destinations: [7], categories: [4] },
+        },
+    },
+    {
+        id: "budget-in-egp",
+        description: "A budget in Egyptian pounds is passed with its currency",
+        turns: ["Cultural tours in Cairo under 2000 EGP"],
+        script: [
+            {
+                toolCalls: [
+                    {
+                        toolName: "searchListings",
+                        args: {
+                            destinations: [1],
+                            categories: [2],
+                            max_price: 2000,
+                            price_currency: "EGP",
+                        },
+                    },
+                ],
+            },
+            listResults,
+        ],
+        expect: {
+            searchListings: {
+                destinations: [1],
+                categories: [2],
+                max_price: 2000,
+                price_currency: "EGP",
+            },
+        },
+    },
+    {
+        id: "dates-in-words",
+        description: "Relative dates are passed in the user's words",
+        turns: ["Things to do in Siwa next weekend"],
+        script: [
+            {
+                toolCalls: [
+                    {
+                        toolName: "searchListings",
+                        args: { destinations: [9], dates: "next weekend" },
+                    },
+                ],
+            },
+            listResults,
+        ],
+        expect: {
+            searchListings: { destinations: [9], dates: "next weekend" },
+        },
+    },
+    {
+        id: "arabic-destination",
+        description: "Arabic requests are searched and answered in Arabic",
+        turns: ["أريد رحلات في الأقصر"],
+        script: [
+            {
+                toolCalls: [
+                    {
+                        toolName: "searchListings",
+                        args: { destinations: [4] },
+                    },
+                ],
+            },
+            listResults,
+        ],
+        expect: {
+            searchListings: { destinations: [4] },
+            language: "ar",
+        },
+    },
+    {
+        id: "clarify-then-search",
+        description: "A vague request gets a question, and the answer a search",
+        turns: ["I'm looking for cheap activities", "In Aswan please, under $40"],
+        script: [
+            {
+                text: "Happy to help! Which destination would you like activities in, and what is your budget?",
+            },
+            {
+                toolCalls: [
+                    {
+                        toolName: "searchListings",
+                        args: { destinations: [5], max_price: 40 },
+                    },
+                ],
+            },
+            listResults,
+        ],
+        expect: {
+            searchListings: { destinations: [5], max_price: 40 },
+        },
+    },
+    {
+        id: "privacy-question",
+        description: "Privacy questions are answered from the policy, cited",
+        turns: ["How does Ithaka use my personal data?"],
+        script: [
+            {
+                toolCalls: [
+                    {
+                        toolName: "lookupPrivacySection",
+                        args: { query: "personal data use" },
+                    },
+                ],
+            },
+            citeSections,
+        ],
+        expect: {
+            tools: ["lookupPrivacySection"],
+            forbiddenTools: ["searchListings"],
+            mentions: [/\[privacy-\d+\]/],
+            refusal: false,
+        },
+    },
+    {
+        id: "faq-question",
+        description: "FAQ questions are answered from the FAQ with a citation",
+        turns: ["How do I become a tour operator?"],
+        script: [
+            {
+                toolCalls: [
+                    {
+                        toolName: "searchFaq",
+                        args: { query: "become a tour operator" },
+                    },
+                ],
+            },
+            citeSections,
+        ],
+        expect: {
+            tools: ["searchFaq"],
+            forbiddenTools: ["searchListings"],
+            mentions: [/\[faq-\d+\]/],
+        },
+    },
+    {
+        id: "off-topic-routed",
+        description: "Coding requests are declined before the model runs",
+        turns: ["Write me a python script to sort a list"],
+        script: [],
+        expect: {
+            refusal: true,
+            forbiddenTools: ["searchListings"],
+            followUp: true,
+        },
+    },
+    {
+        id: "off-topic-general",
+        description: "General knowledge questions are declined politely",
+        turns: ["What's the capital of Australia?"],
+        script: [
+            {
+                text: "Sorry, I can only help with travel in Egypt and Ithaka's services. Would you like some ideas for your trip?",
+            },
+        ],
+        expect: {
+            refusal: true,
+            forbiddenTools: ["searchListings"],
+        },
+    },
+];
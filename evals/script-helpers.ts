@@ -0,0 +1,64 @@
+import { detectLocale } from "@/lib/i18n";
+import { extractListings, formatPrice } from "@/lib/listings";
+import type { ScriptedTurn } from "@/lib/llm/scripted-model";
+import type { CallOptions } from "@/lib/llm/types";
+
+function toolResults(options: CallOptions) {
+    const last = options.prompt[options.prompt.length - 1];
+    return last?.role === "tool"
+        ? last.content.map((part) => part.result)
+        : [];
+}
+
+function userLocale(options: CallOptions) {
+    const user = options.prompt.findLast(({ role }) => role === "user");
+    const text =
+        user?.role === "user"
+            ? user.content
+                  .map((part) => (part.type === "text" ? part.text : ""))
+                  .join(" ")
+            : "";
+    return detectLocale(text);
+}
+
+/** Answers a search by listing exactly what it returned. */
+export function listResults(options: CallOptions): ScriptedTurn {
+    const locale = userLocale(options);
+    const listings = toolResults(options).flatMap((result) =>
+        extractListings(result, locale)
+    );
+    if (listings.length === 0) {
+        return {
+            text:
+                locale === "ar"
+                    ? "لم أجد أنشطة مطابقة. هل تود تجربة وجهة أخرى؟"
+                    : "I couldn't find matching activities. Would you like to try another destination?",
+        };
+    }
+    const book = locale === "ar" ? "احجز" : "Book";
+    const lines = listings.map(({ title, price, currency, url }) => {
+        const priced =
+            price === undefined ? "" : ` — ${formatPrice(price, currency)}`;
+        return `- **${title}**${priced} ([${book}](${url}))`;
+    });
+    return {
+        text:
+            locale === "ar"
+                ? `وجدت ${listings.length} من الأنشطة:\n${lines.join("\n")}\nهل تود أن أضيّق الخيارات أكثر؟`
+                : `I found ${listings.length} activities:\n${lines.join("\n")}\nWould you like me to refine these options further?`,
+    };
+}
+
+/** Answers from the first FAQ or privacy section found, citing its ID. */
+export function citeSections(options: CallOptions): ScriptedTurn {
+    const [section] = toolResults(options).flatMap(
+        (result) =>
+            (result as { sections?: { id: string; title: string }[] })
+                ?.sections ?? []
+    );
+    return {
+        text: section
+            ? `This is covered in "${section.title}" [${section.id}]. Would you like more detail?`
+            : "I couldn't find that in our help pages. Would you like me to connect you with support?",
+    };
+}
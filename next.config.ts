@@ -1,5 +1,11 @@
 import type { NextConfig } from 'next';
 
+// Sites allowed to embed the chat widget's iframe, comma-separated. Unset
+// means any site may.
+const embedOrigins = process.env.EMBED_ALLOWED_ORIGINS?.split(',')
+  .map((origin) => origin.trim())
+  .filter(Boolean);
+
 const nextConfig: NextConfig = {
   /* config options here */
   eslint: {
@@ -8,6 +14,20 @@ const nextConfig: NextConfig = {
   typescript: {
     ignoreBuildErrors: true,
   },
+  async headers() {
+    if (!embedOrigins?.length) return [];
+    return [
+      {
+        source: '/embed',
+        headers: [
+          {
+            key: 'Content-Security-Policy',
+            value: `frame-ancestors 'self' ${embedOrigins.join(' ')}`,
+          },
+        ],
+      },
+    ];
+  },
 };
 
 export default nextConfig;
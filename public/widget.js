@@ -0,0 +1,222 @@
+/**
+ * Ithaka AI chat widget: a floating launcher that opens the assistant in an
+ * iframe. Add it to any page with
+ *
+ *   <script src="https://<assistant host>/widget.js" async
+ *     data-destination="Dahab" data-primary-color="#0f766e"></script>
+ *
+ * Options, as data attributes or a `window.IthakaChatConfig` object set
+ * before the script loads (camelCase keys):
+ *
+ *   data-api-base       where the assistant runs; defaults to this script's origin
+ *   data-locale         "en" or "ar"; defaults to the visitor's language
+ *   data-greeting       first message shown in the chat
+ *   data-destination    destination the page is about, by name or ID
+ *   data-category       category the page is about, by name or ID
+ *   data-primary-color  launcher, header and message color
+ *   data-accent-color   second header gradient color
+ *   data-position       "right" (default) or "left"
+ *
+ * The host page controls it through `window.IthakaChat`:
+ *
+ *   IthakaChat.open("Tell me about Dahab")  opens, sending the message if given
+ *   IthakaChat.send("Tell me about Dahab")  same as open(message)
+ *   IthakaChat.close() / IthakaChat.toggle()
+ *
+ * or, from code that has no reference to this script, with postMessage:
+ *
+ *   window.postMessage({ type: "ithaka:open", message: "Tell me about Dahab" }, "*")
+ *   window.postMessage({ type: "ithaka:close" }, "*")
+ *
+ * and is told what happens through DOM events on `window`: "ithaka:ready",
+ * "ithaka:open", "ithaka:close" and "ithaka:message" (the finished answer
+ * in `event.detail.message`; only for sites in the assistant's
+ * EMBED_ALLOWED_ORIGINS).
+ */
+(function () {
+  'use strict';
+
+  if (window.IthakaChat) return;
+
+  var script = document.currentScript;
+  var config = Object.assign(
+    {},
+    script ? script.dataset : {},
+    window.IthakaChatConfig || {}
+  );
+  var base = String(
+    config.apiBase || (script ? new URL(script.src).origin : location.origin)
+  ).replace(/\/+$/, '');
+  var origin = new URL(base, location.href).origin;
+  var primary = config.primaryColor || '#2563eb';
+  var side = config.position === 'left' ? 'left' : 'right';
+
+  var frame;
+  var panel;
+  var launcher;
+  var ready = false;
+  // Messages sent before the iframe has loaded.
+  var queue = [];
+
+  function emit(type, detail) {
+    window.dispatchEvent(new CustomEvent(type, { detail: detail }));
+  }
+
+  function embedUrl() {
+    var params = new URLSearchParams();
+    var options = {
+      host: location.origin,
+      locale: config.locale,
+      greeting: config.greeting,
+      destination: config.destination,
+      category: config.category,
+      primary: config.primaryColor,
+      accent: config.accentColor,
+    };
+    Object.keys(options).forEach(function (key) {
+      if (options[key] != null && options[key] !== '') {
+        params.set(key, String(options[key]));
+      }
+    });
+    return base + '/embed?' + params.toString();
+  }
+
+  function style(element, rules) {
+    Object.keys(rules).forEach(function (key) {
+      element.style[key] = rules[key];
+    });
+  }
+
+  function build() {
+    if (launcher) return;
+    launcher = document.createElement('button');
+    launcher.type = 'button';
+    launcher.setAttribute('aria-label', 'Chat with Ithaka AI');
+    launcher.innerHTML =
+      '<svg width="28" height="28" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round" aria-hidden="true"><path d="M21 15a2 2 0 0 1-2 2H7l-4 4V5a2 2 0 0 1 2-2h14a2 2 0 0 1 2 2z"/></svg>';
+    style(launcher, {
+      position: 'fixed',
+      bottom: '20px',
+      width: '60px',
+      height: '60px',
+      border: 'none',
+      borderRadius: '50%',
+      background: primary,
+      color: '#fff',
+      cursor: 'pointer',
+      boxShadow: '0 4px 14px rgba(0, 0, 0, 0.25)',
+      display: 'flex',
+      alignItems: 'center',
+      justifyContent: 'center',
+      zIndex: '2147483646',
+    });
+    launcher.style[side] = '20px';
+    launcher.addEventListener('click', toggle);
+
+    panel = document.createElement('div');
+    style(panel, {
+      position: 'fixed',
+      bottom: '90px',
+      width: 'min(400px, calc(100vw - 40px))',
+      height: 'min(640px, calc(100vh - 120px))',
+      borderRadius: '16px',
+      overflow: 'hidden',
+      boxShadow: '0 10px 40px rgba(0, 0, 0, 0.25)',
+      background: '#fff',
+      display: 'none',
+      zIndex: '2147483647',
+    });
+    panel.style[side] = '20px';
+
+    document.body.appendChild(panel);
+    document.body.appendChild(launcher);
+  }
+
+  // The iframe is only loaded on first open, so pages that never use the
+  // chat don't pay for it.
+  function loadFrame() {
+    if (frame) return;
+    frame = document.createElement('iframe');
+    frame.src = embedUrl();
+    frame.title = 'Ithaka AI travel assistant';
+    frame.allow = 'clipboard-write';
+    style(frame, { width: '100%', height: '100%', border: 'none' });
+    panel.appendChild(frame);
+  }
+
+  function post(message) {
+    if (ready) {
+      frame.contentWindow.postMessage(message, origin);
+    } else {
+      queue.push(message);
+    }
+  }
+
+  function isOpen() {
+    return Boolean(panel) && panel.style.display !== 'none';
+  }
+
+  function open(message) {
+    build();
+    loadFrame();
+    if (!isOpen()) {
+      panel.style.display = 'block';
+      emit('ithaka:open');
+    }
+    if (typeof message === 'string' && message.trim()) {
+      post({ type: 'ithaka:send', text: message });
+    }
+  }
+
+  function close() {
+    if (!isOpen()) return;
+    panel.style.display = 'none';
+    emit('ithaka:close');
+  }
+
+  function toggle() {
+    if (isOpen()) {
+      close();
+    } else {
+      open();
+    }
+  }
+
+  window.addEventListener('message', function (event) {
+    var data = event.data;
+    if (!data || typeof data.type !== 'string') return;
+
+    // Commands from the host page itself.
+    if (event.source === window) {
+      if (data.type === 'ithaka:open') open(data.message);
+      if (data.type === 'ithaka:close') close();
+      return;
+    }
+
+    // Events from the chat iframe.
+    if (!frame || event.source !== frame.contentWindow) return;
+    if (event.origin !== origin) return;
+    if (data.type === 'ithaka:ready') {
+      ready = true;
+      queue.splice(0).forEach(post);
+      emit('ithaka:ready');
+    } else if (data.type === 'ithaka:close') {
+      close();
+    } else if (data.type === 'ithaka:message') {
+      emit('ithaka:message', { message: data.message });
+    }
+  });
+
+  window.IthakaChat = {
+    open: open,
+    close: close,
+    toggle: toggle,
+    send: open,
+  };
+
+  if (document.body) {
+    build();
+  } else {
+    document.addEventListener('DOMContentLoaded', build);
+  }
+})();
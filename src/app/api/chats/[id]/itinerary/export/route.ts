@@ -0,0 +1,31 @@
+import { getChatStore, isValidChatId } from "@/lib/chat-store";
+import { requestLocale } from "@/lib/i18n";
+import { emptyItinerary } from "@/lib/itinerary";
+import { exportResponse } from "@/lib/itinerary-export";
+import { visitorId } from "@/lib/visitor";
+
+export const runtime = "nodejs";
+
+// GET ?format=ics downloads a calendar; anything else returns the printable page.
+export async function GET(
+    req: Request,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    const { id } = await params;
+    if (!isValidChatId(id)) {
+        return Response.json({ error: "Invalid chat id" }, { status: 400 });
+    }
+    const owner = visitorId(req);
+    const chat = owner ? await getChatStore().get(id, owner) : undefined;
+    const url = new URL(req.url);
+    return exportResponse(
+        chat?.itinerary ?? emptyItinerary(),
+        url.searchParams.get("format"),
+        {
+            title: chat?.title ?? "Your Ithaka trip",
+            calendarUrl: `${url.pathname}?format=ics`,
+            filename: "ithaka-trip",
+            locale: requestLocale(req),
+        }
+    );
+}
@@ -0,0 +1,55 @@
+import { getChatStore, isValidChatId } from "@/lib/chat-store";
+import {
+    applyEdit,
+    emptyItinerary,
+    itineraryEditSchema,
+} from "@/lib/itinerary";
+import { ListingLookup } from "@/lib/listings";
+import { visitorId } from "@/lib/visitor";
+
+export const runtime = "nodejs";
+
+type Params = { params: Promise<{ id: string }> };
+
+export async function GET(req: Request, { params }: Params) {
+    const { id } = await params;
+    if (!isValidChatId(id)) {
+        return Response.json({ error: "Invalid chat id" }, { status: 400 });
+    }
+    const owner = visitorId(req);
+    const chat = owner ? await getChatStore().get(id, owner) : undefined;
+    return Response.json(chat?.itinerary ?? emptyItinerary());
+}
+
+// Manual edits from the itinerary panel: days, order, notes, removals and
+// the start date. Titles, prices and links always come from listing data.
+export async function PUT(req: Request, { params }: Params) {
+    const { id } = await params;
+    if (!isValidChatId(id)) {
+        return Response.json({ error: "Invalid chat id" }, { status: 400 });
+    }
+    const body = itineraryEditSchema.safeParse(
+        await req.json().catch(() => null)
+    );
+    if (!body.success) {
+        return Response.json(
+            { error: "Invalid itinerary", issues: body.error.issues },
+            { status: 400 }
+        );
+    }
+    const owner = visitorId(req);
+    const store = getChatStore();
+    const chat = owner ? await store.get(id, owner) : undefined;
+    if (!owner || !chat) {
+        return Response.json({ error: "Chat not found" }, { status: 404 });
+    }
+    const itinerary = applyEdit(
+        chat.itinerary ?? emptyItinerary(),
+        body.data,
+        ListingLookup.fromMessages(chat.messages)
+    );
+    if (!(await store.saveItinerary(id, owner, itinerary))) {
+        return Response.json({ error: "Chat not found" }, { status: 404 });
+    }
+    return Response.json(itinerary);
+}
@@ -0,0 +1,49 @@
+import { z } from "zod";
+import { getChatStore, isValidChatId } from "@/lib/chat-store";
+import { visitorId } from "@/lib/visitor";
+
+export const runtime = "nodejs";
+
+type Params = { params: Promise<{ id: string }> };
+
+function notFound() {
+    return Response.json({ error: "Chat not found" }, { status: 404 });
+}
+
+// Other visitors' chats are reported as missing, not forbidden, so IDs
+// can't be probed.
+export async function GET(req: Request, { params }: Params) {
+    const { id } = await params;
+    const owner = visitorId(req);
+    const chat =
+        owner && isValidChatId(id)
+            ? await getChatStore().get(id, owner)
+            : undefined;
+    // The owner ID is the visitor's cookie; it stays out of page scripts.
+    return chat ? Response.json({ ...chat, owner: undefined }) : notFound();
+}
+
+const renameSchema = z.object({
+    title: z.string().trim().min(1).max(120),
+});
+
+export async function PATCH(req: Request, { params }: Params) {
+    const { id } = await params;
+    const body = renameSchema.safeParse(await req.json().catch(() => null));
+    if (!body.success) {
+        return Response.json({ error: "A title is required" }, { status: 400 });
+    }
+    const owner = visitorId(req);
+    const chat =
+        owner && isValidChatId(id)
+            ? await getChatStore().rename(id, owner, body.data.title)
+            : undefined;
+    return chat ? Response.json(chat) : notFound();
+}
+
+export async function DELETE(req: Request, { params }: Params) {
+    const { id } = await params;
+    const owner = visitorId(req);
+    const deleted = owner && (await getChatStore().delete(id, owner));
+    return deleted ? new Response(null, { status: 204 }) : notFound();
+}
@@ -0,0 +1,36 @@
+import { getChatStore, isValidChatId } from "@/lib/chat-store";
+import { requestLocale } from "@/lib/i18n";
+import { getShareStore } from "@/lib/share-store";
+import { visitorId } from "@/lib/visitor";
+
+export const runtime = "nodejs";
+
+export async function POST(
+    req: Request,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    const { id } = await params;
+    const owner = visitorId(req);
+    const chat =
+        owner && isValidChatId(id)
+            ? await getChatStore().get(id, owner)
+            : undefined;
+    if (!chat?.itinerary?.items.length) {
+        return Response.json(
+            { error: "There is no trip plan to share yet" },
+            { status: 404 }
+        );
+    }
+    const share = await getShareStore().create(
+        chat.title,
+        chat.itinerary,
+        requestLocale(req)
+    );
+    return Response.json(
+        {
+            token: share.token,
+            url: new URL(`/share/${share.token}`, req.url).toString(),
+        },
+        { status: 201 }
+    );
+}
@@ -0,0 +1,11 @@
+import { getChatStore } from "@/lib/chat-store";
+import { visitorId } from "@/lib/visitor";
+
+export const runtime = "nodejs";
+
+// Only the requesting visitor's chats.
+export async function GET(req: Request) {
+    const owner = visitorId(req);
+    const chats = owner ? await getChatStore().list(owner) : [];
+    return Response.json({ chats });
+}
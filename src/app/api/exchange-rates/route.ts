@@ -0,0 +1,12 @@
+import { backendCurrency } from "@/lib/currency";
+import { getExchangeRates } from "@/lib/exchange-rates";
+
+export const runtime = "nodejs";
+
+export async function GET() {
+    const rates = await getExchangeRates();
+    return Response.json(
+        { ...rates, backendCurrency: backendCurrency() },
+        { headers: { "Cache-Control": "public, max-age=3600" } }
+    );
+}
@@ -0,0 +1,19 @@
+export const runtime = "nodejs";
+
+// Serves the fixture backend over HTTP so it can be used as
+// ITHAKA_API_BASE_URL=http://localhost:3000/api/mock-ithaka. Only in
+// ITHAKA_API_MODE=mock; anywhere else it does not exist.
+export async function GET(
+    req: Request,
+    { params }: { params: Promise<{ path: string[] }> }
+) {
+    if (process.env.ITHAKA_API_MODE !== "mock") {
+        return Response.json({ error: "Not found" }, { status: 404 });
+    }
+    const { handleMockRequest } = await import("@/lib/ithaka/mock/server");
+    const { path } = await params;
+    return handleMockRequest(
+        `/${path.join("/")}`,
+        new URL(req.url).searchParams
+    );
+}
@@ -0,0 +1,12 @@
+import { EmbedChat } from "@/components/embed-chat";
+import { parseEmbedConfig } from "@/lib/embed";
+
+// Loaded in an iframe by `public/widget.js`; its options arrive in the
+// query string.
+export default async function EmbedPage({
+  searchParams,
+}: {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}) {
+  return <EmbedChat config={parseEmbedConfig(await searchParams)} />;
+}
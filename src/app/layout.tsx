@@ -1,5 +1,12 @@
 import type { Metadata } from "next";
 import { Geist, Geist_Mono } from "next/font/google";
+import { cookies, headers } from "next/headers";
+import {
+  isLocale,
+  LOCALE_COOKIE,
+  localeFromAcceptLanguage,
+  textDirection,
+} from "@/lib/i18n";
 import "./globals.css";
 
 const geistSans = Geist({
@@ -17,13 +24,20 @@ export const metadata: Metadata = {
   description: "Generated by ithaka",
 };
 
-export default function RootLayout({
+export default async function RootLayout({
   children,
 }: Readonly<{
   children: React.ReactNode;
 }>) {
+  // The language switch stores its choice in a cookie; first visits follow
+  // the browser.
+  const saved = (await cookies()).get(LOCALE_COOKIE)?.value;
+  const locale = isLocale(saved)
+    ? saved
+    : localeFromAcceptLanguage((await headers()).get("accept-language"));
+
   return (
-    <html lang="en">
+    <html lang={locale} dir={textDirection(locale)}>
       <body
         className={`${geistSans.variable} ${geistMono.variable} antialiased`}
       >
@@ -1,168 +1,138 @@
 'use client';
 
-import { useChat } from '@ai-sdk/react';
-import { useState, useEffect } from 'react';
-import { Button } from '@/components/ui/button';
-import { Input } from '@/components/ui/input';
+import { generateId, type Message } from 'ai';
+import { useCallback, useEffect, useState } from 'react';
+import { Chat } from '@/components/chat';
+import { ChatSidebar } from '@/components/chat-sidebar';
+import { ItineraryPanel } from '@/components/itinerary-panel';
+import { isSupportedCurrency, type RatesResponse } from '@/lib/currency';
 import {
-  Card,
-  CardContent,
-  CardFooter,
-  CardHeader,
-  CardTitle,
-} from '@/components/ui/card';
-import { AlertCircle, Bot, User, Wand2 } from 'lucide-react';
-import { Alert, AlertDescription } from '@/components/ui/alert';
-import ReactMarkdown from 'react-markdown';
-import remarkGfm from 'remark-gfm';
+  DEFAULT_LOCALE,
+  isLocale,
+  LOCALE_COOKIE,
+  textDirection,
+  type Locale,
+} from '@/lib/i18n';
+import { addItem, emptyItinerary, type Itinerary } from '@/lib/itinerary';
 
-// const promptStarters = [
-//   'Tell me about popular destinations in Egypt',
-//   'What are the must-visit places in Alexandria?',
-//   'Suggest a cultural tour in Cairo',
-//   'How can I plan a trip to multiple Egyptian cities?',
-//   "What's the best time to visit Egypt?",
-// ];
+const CURRENCY_KEY = 'ithaka.currency';
 
-export default function Chat() {
-  const {
-    messages,
-    input,
-    handleInputChange,
-    handleSubmit,
-    isLoading,
-    error,
-    append,
-  } = useChat({
-    api: '/api/chat',
-    onError: (error) => {
-      console.error('Chat Error:', error);
-    },
-  });
+export default function Page() {
+  const [chatId, setChatId] = useState<string>();
+  const [initialMessages, setInitialMessages] = useState<Message[]>([]);
+  const [sidebarVersion, setSidebarVersion] = useState(0);
+  const [itinerary, setItinerary] = useState<Itinerary>(emptyItinerary);
+  const [currency, setCurrency] = useState<string>();
+  const [rates, setRates] = useState<RatesResponse>();
+  const [locale, setLocale] = useState<Locale>(DEFAULT_LOCALE);
+
+  // The layout already rendered <html lang> from the cookie or the browser.
+  useEffect(() => {
+    const initial = document.documentElement.lang;
+    if (isLocale(initial)) setLocale(initial);
+  }, []);
 
-  const [isInitialized, setIsInitialized] = useState(false);
+  const chooseLocale = useCallback((next: Locale) => {
+    setLocale(next);
+    document.documentElement.lang = next;
+    document.documentElement.dir = textDirection(next);
+    document.cookie = `${LOCALE_COOKIE}=${next}; path=/; max-age=31536000; samesite=lax`;
+  }, []);
 
   useEffect(() => {
-    if (!isInitialized && messages.length === 0) {
-      append({
-        content:
-          "Hi! I'm **Ithaka's** specialized AI travel assistant. How can I help you today? ",
-        role: 'assistant',
-      });
-      setIsInitialized(true);
-    }
-  }, [isInitialized, messages, append]);
+    const saved = localStorage.getItem(CURRENCY_KEY);
+    if (isSupportedCurrency(saved)) setCurrency(saved);
+    fetch('/api/exchange-rates')
+      .then((res) => (res.ok ? res.json() : undefined))
+      .then(setRates)
+      .catch((err) => console.error('Failed to load exchange rates:', err));
+  }, []);
 
-  const onSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
-    e.preventDefault();
-    try {
-      await handleSubmit(e);
-    } catch (err) {
-      console.error('Submit Error:', err);
+  const chooseCurrency = useCallback((next: string) => {
+    setCurrency(next || undefined);
+    if (next) {
+      localStorage.setItem(CURRENCY_KEY, next);
+    } else {
+      localStorage.removeItem(CURRENCY_KEY);
     }
-  };
-
-  return (
-    <div className='flex flex-col items-center justify-center min-h-screen bg-gradient-to-br from-blue-50 to-purple-50 p-4'>
-      <Card className='w-full max-w-2xl shadow-lg rounded-2xl overflow-hidden border-0'>
-        <CardHeader className='bg-gradient-to-r from-blue-600 to-purple-600 text-white'>
-          <CardTitle className='flex items-center gap-2'>
-            <Wand2 className='w-6 h-6' />
-            <span>Ithaka AI Travel Assistant</span>
-          </CardTitle>
-        </CardHeader>
+  }, []);
 
-        <CardContent className='h-[60vh] overflow-y-auto p-6 space-y-6 bg-white'>
-          {error && (
-            <Alert variant='destructive' className='mb-4'>
-              <AlertCircle className='h-4 w-4' />
-              <AlertDescription>
-                {error.message || 'An error occurred. Please try again.'}
-              </AlertDescription>
-            </Alert>
-          )}
+  const openChat = useCallback(async (id: string) => {
+    const res = await fetch(`/api/chats/${id}`);
+    const chat = res.ok ? await res.json() : undefined;
+    setInitialMessages(chat?.messages ?? []);
+    setItinerary(chat?.itinerary ?? emptyItinerary());
+    setChatId(id);
+    window.history.replaceState(null, '', `?chat=${id}`);
+  }, []);
 
-          {messages.map((m) => (
-            <div
-              key={m.id}
-              className={`flex ${
-                m.role === 'user' ? 'justify-end' : 'justify-start'
-              }`}
-            >
-              <div
-                className={`max-w-[80%] p-4 rounded-2xl ${
-                  m.role === 'user'
-                    ? 'bg-blue-600 text-white'
-                    : 'bg-gray-100 text-gray-800'
-                }`}
-              >
-                <div className='flex items-center gap-2 mb-2'>
-                  {m.role === 'user' ? (
-                    <User className='w-5 h-5' />
-                  ) : (
-                    <Bot className='w-5 h-5 text-purple-600' />
-                  )}
-                  <span className='text-sm font-medium'>
-                    {m.role === 'user' ? 'You' : 'Ithaka AI'}
-                  </span>
-                </div>
-                <ReactMarkdown
-                  remarkPlugins={[remarkGfm]}
-                  className={`prose ${
-                    m.role === 'user' ? 'text-white' : 'text-gray-800'
-                  } max-w-none`}
-                >
-                  {m.content}
-                </ReactMarkdown>
-              </div>
-            </div>
-          ))}
+  const newChat = useCallback(() => {
+    setInitialMessages([]);
+    setItinerary(emptyItinerary());
+    setChatId(generateId());
+    window.history.replaceState(null, '', window.location.pathname);
+  }, []);
 
-          {isLoading && (
-            <div className='flex justify-start'>
-              <div className='max-w-[80%] p-4 rounded-2xl bg-gray-100 text-gray-800'>
-                <div className='flex items-center gap-2'>
-                  <Bot className='w-5 h-5 text-purple-600 animate-pulse' />
-                  <span className='text-sm font-medium'>
-                    Ithaka AI is typing...
-                  </span>
-                </div>
-              </div>
-            </div>
-          )}
-        </CardContent>
+  useEffect(() => {
+    const id = new URLSearchParams(window.location.search).get('chat');
+    if (id) {
+      openChat(id);
+    } else {
+      newChat();
+    }
+  }, [openChat, newChat]);
 
-        <CardFooter className='flex flex-col space-y-4 p-6 bg-gray-50 border-t'>
-          {/* <div className='flex flex-wrap gap-2 justify-center'>
-            {promptStarters.map((prompt, index) => (
-              <Button
-                key={index}
-                variant='outline'
-                onClick={() => append({ content: prompt, role: 'user' })}
-                className='rounded-full bg-white hover:bg-blue-50 text-blue-600 border-blue-200 hover:border-blue-300 transition-all'
-              >
-                {prompt}
-              </Button>
-            ))}
-          </div> */}
+  // Manual edits are saved right away; the assistant sees them next turn.
+  const editItinerary = useCallback(
+    (next: Itinerary) => {
+      setItinerary(next);
+      if (!chatId) return;
+      fetch(`/api/chats/${chatId}/itinerary`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(next),
+      }).catch((err) => console.error('Failed to save itinerary:', err));
+    },
+    [chatId]
+  );
 
-          <form onSubmit={onSubmit} className='flex w-full space-x-2'>
-            <Input
-              value={input}
-              onChange={handleInputChange}
-              placeholder='Type your message...'
-              className='flex-grow rounded-full bg-white border-gray-200 focus:border-blue-500 focus:ring-1 focus:ring-blue-500'
-            />
-            <Button
-              type='submit'
-              disabled={isLoading}
-              className='rounded-full bg-blue-600 hover:bg-blue-700 text-white px-6 transition-all'
-            >
-              Send
-            </Button>
-          </form>
-        </CardFooter>
-      </Card>
+  return (
+    <div className='flex items-center justify-center min-h-screen bg-gradient-to-br from-blue-50 to-purple-50 p-4'>
+      <div className='flex w-full max-w-7xl gap-4 justify-center'>
+        <ChatSidebar
+          activeId={chatId}
+          refreshKey={sidebarVersion}
+          onSelect={openChat}
+          onNew={newChat}
+          onDeleted={(id) => id === chatId && newChat()}
+        />
+        {chatId && (
+          <Chat
+            key={chatId}
+            id={chatId}
+            initialMessages={initialMessages}
+            locale={locale}
+            onLocaleChange={chooseLocale}
+            currency={currency}
+            onCurrencyChange={chooseCurrency}
+            display={
+              currency && rates
+                ? { currency, rates, backendCurrency: rates.backendCurrency }
+                : undefined
+            }
+            onFinish={() => setSidebarVersion((version) => version + 1)}
+            onItinerary={setItinerary}
+            onAddListing={(listing) =>
+              editItinerary(addItem(itinerary, listing).itinerary)
+            }
+          />
+        )}
+        <ItineraryPanel
+          chatId={chatId}
+          itinerary={itinerary}
+          onChange={editItinerary}
+        />
+      </div>
     </div>
   );
 }
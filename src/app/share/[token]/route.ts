@@ -0,0 +1,25 @@
+import { exportResponse } from "@/lib/itinerary-export";
+import { getShareStore } from "@/lib/share-store";
+
+export const runtime = "nodejs";
+
+// Public, read-only view of a shared trip plan.
+export async function GET(
+    req: Request,
+    { params }: { params: Promise<{ token: string }> }
+) {
+    const { token } = await params;
+    const share = await getShareStore().get(token);
+    if (!share) {
+        return new Response("This shared trip could not be found.", {
+            status: 404,
+        });
+    }
+    const url = new URL(req.url);
+    return exportResponse(share.itinerary, url.searchParams.get("format"), {
+        title: share.title,
+        calendarUrl: `${url.pathname}?format=ics`,
+        filename: "ithaka-trip",
+        locale: share.locale,
+    });
+}
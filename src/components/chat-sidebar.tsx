@@ -0,0 +1,150 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Check, MessageSquare, Pencil, Plus, Trash2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import type { ChatSummary } from '@/lib/chat-store';
+
+interface ChatSidebarProps {
+  activeId?: string;
+  // Bumped by the parent whenever a chat changes, to refetch the list.
+  refreshKey: number;
+  onSelect: (id: string) => void;
+  onNew: () => void;
+  onDeleted: (id: string) => void;
+}
+
+export function ChatSidebar({
+  activeId,
+  refreshKey,
+  onSelect,
+  onNew,
+  onDeleted,
+}: ChatSidebarProps) {
+  const [chats, setChats] = useState<ChatSummary[]>([]);
+  const [editingId, setEditingId] = useState<string>();
+  const [draftTitle, setDraftTitle] = useState('');
+
+  useEffect(() => {
+    fetch('/api/chats')
+      .then((res) => (res.ok ? res.json() : { chats: [] }))
+      .then((data) => setChats(data.chats))
+      .catch((err) => console.error('Failed to load chats:', err));
+  }, [refreshKey]);
+
+  const rename = async (id: string) => {
+    const title = draftTitle.trim();
+    setEditingId(undefined);
+    if (!title) return;
+    const res = await fetch(`/api/chats/${id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ title }),
+    });
+    if (res.ok) {
+      const updated: ChatSummary = await res.json();
+      setChats((current) =>
+        current.map((chat) => (chat.id === id ? updated : chat))
+      );
+    }
+  };
+
+  const remove = async (id: string) => {
+    if (!window.confirm('Delete this conversation?')) return;
+    const res = await fetch(`/api/chats/${id}`, { method: 'DELETE' });
+    if (res.ok) {
+      setChats((current) => current.filter((chat) => chat.id !== id));
+      onDeleted(id);
+    }
+  };
+
+  return (
+    <Card className='hidden md:flex flex-col w-64 shrink-0 shadow-lg rounded-2xl overflow-hidden border-0'>
+      <CardHeader className='p-4 bg-white border-b'>
+        <CardTitle className='flex items-center justify-between text-base'>
+          <span>Conversations</span>
+          <Button
+            size='icon'
+            variant='ghost'
+            onClick={onNew}
+            aria-label='New conversation'
+          >
+            <Plus className='w-4 h-4' />
+          </Button>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className='p-2 flex-grow overflow-y-auto bg-white space-y-1'>
+        {chats.length === 0 && (
+          <p className='p-2 text-sm text-gray-500'>No saved conversations yet.</p>
+        )}
+        {chats.map((chat) => (
+          <div
+            key={chat.id}
+            className={`group flex items-center gap-2 rounded-lg px-2 py-1.5 text-sm ${
+              chat.id === activeId
+                ? 'bg-blue-50 text-blue-700'
+                : 'hover:bg-gray-50 text-gray-700'
+            }`}
+          >
+            {editingId === chat.id ? (
+              <form
+                className='flex items-center gap-1 w-full'
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  rename(chat.id);
+                }}
+              >
+                <Input
+                  autoFocus
+                  value={draftTitle}
+                  onChange={(e) => setDraftTitle(e.target.value)}
+                  className='h-7 text-sm'
+                />
+                <Button size='icon' variant='ghost' type='submit'>
+                  <Check className='w-4 h-4' />
+                </Button>
+                <Button
+                  size='icon'
+                  variant='ghost'
+                  type='button'
+                  onClick={() => setEditingId(undefined)}
+                >
+                  <X className='w-4 h-4' />
+                </Button>
+              </form>
+            ) : (
+              <>
+                <button
+                  className='flex items-center gap-2 flex-grow min-w-0 text-start'
+                  onClick={() => onSelect(chat.id)}
+                >
+                  <MessageSquare className='w-4 h-4 shrink-0' />
+                  <span className='truncate'>{chat.title}</span>
+                </button>
+                <button
+                  className='opacity-0 group-hover:opacity-100 text-gray-400 hover:text-gray-700'
+                  onClick={() => {
+                    setDraftTitle(chat.title);
+                    setEditingId(chat.id);
+                  }}
+                  aria-label='Rename conversation'
+                >
+                  <Pencil className='w-3.5 h-3.5' />
+                </button>
+                <button
+                  className='opacity-0 group-hover:opacity-100 text-gray-400 hover:text-red-600'
+                  onClick={() => remove(chat.id)}
+                  aria-label='Delete conversation'
+                >
+                  <Trash2 className='w-3.5 h-3.5' />
+                </button>
+              </>
+            )}
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
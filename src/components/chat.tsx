@@ -0,0 +1,544 @@
+'use client';
+
+import { useChat } from '@ai-sdk/react';
+import type { Message } from 'ai';
+import { useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Card,
+  CardContent,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import {
+  AlertCircle,
+  Bot,
+  Pencil,
+  RotateCcw,
+  ShieldAlert,
+  ShieldCheck,
+  Square,
+  User,
+  Wand2,
+  X,
+} from 'lucide-react';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import ReactMarkdown from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import { ComparisonTable } from '@/components/comparison-table';
+import {
+  ListingCarousel,
+  type PriceDisplay,
+} from '@/components/listing-carousel';
+import { SUPPORTED_CURRENCIES } from '@/lib/currency';
+import { isGroundingAnnotation } from '@/lib/grounding';
+import {
+  DEFAULT_LOCALE,
+  UI_STRINGS,
+  type Locale,
+  type UiStrings,
+} from '@/lib/i18n';
+import type { Itinerary } from '@/lib/itinerary';
+import {
+  extractListings,
+  LISTING_TOOL_NAMES,
+  type ListingSummary,
+} from '@/lib/listings';
+import type { PageContextInput } from '@/lib/page-context';
+
+// const promptStarters = [
+//   'Tell me about popular destinations in Egypt',
+//   'What are the must-visit places in Alexandria?',
+//   'Suggest a cultural tour in Cairo',
+//   'How can I plan a trip to multiple Egyptian cities?',
+//   "What's the best time to visit Egypt?",
+// ];
+
+const ITINERARY_TOOLS = new Set([
+  'addToItinerary',
+  'removeFromItinerary',
+  'reorderItinerary',
+]);
+
+// Shown at the top of every conversation; never sent to the server. Its
+// text follows the page language.
+const greeting: Message = {
+  id: 'greeting',
+  role: 'assistant',
+  content: UI_STRINGS[DEFAULT_LOCALE].greeting,
+};
+
+// useChat surfaces the raw response body of failed requests; the chat route
+// answers with `{ error, code }` JSON for rate limits and oversized input.
+function describeError(error: Error, { errors }: UiStrings) {
+  try {
+    const body = JSON.parse(error.message);
+    switch (body?.code) {
+      case 'rate_limited':
+        return errors.rateLimited(body.retryAfter);
+      case 'too_large':
+        return errors.tooLarge;
+      case 'message_too_long':
+        return errors.messageTooLong(body.limit);
+      case 'too_many_messages':
+        return errors.tooManyMessages(body.limit);
+      case 'invalid_request':
+        return errors.invalidRequest;
+    }
+    if (typeof body?.error === 'string') return body.error;
+  } catch {
+    // Not JSON; show the message as-is.
+  }
+  return error.message || errors.generic;
+}
+
+// The chat route annotates answers whose prices, listings or links don't
+// match the listing data; mismatched listing prices come corrected.
+function groundingOf(message: Message) {
+  return message.annotations?.find(isGroundingAnnotation);
+}
+
+function GroundingNote({
+  message,
+  strings,
+}: {
+  message: Message;
+  strings: UiStrings;
+}) {
+  const grounding = groundingOf(message);
+  if (!grounding) return null;
+  const unverified = grounding.issues.filter(({ expected }) => !expected);
+  if (unverified.length === 0) {
+    return (
+      <div className='mt-2 flex items-center gap-1 text-xs text-gray-500'>
+        <ShieldCheck className='w-3.5 h-3.5' />
+        <span>{strings.corrected}</span>
+      </div>
+    );
+  }
+  return (
+    <div
+      className='mt-2 inline-flex items-center gap-1 rounded-full bg-amber-100 px-2 py-0.5 text-xs font-medium text-amber-800'
+      title={[
+        strings.unverifiedHint,
+        ...unverified.map(({ found }) => found),
+      ].join('\n')}
+    >
+      <ShieldAlert className='w-3.5 h-3.5' />
+      <span>{strings.unverified}</span>
+    </div>
+  );
+}
+
+/** CSS colors for the header gradient, the user's bubbles and buttons. */
+export interface ChatTheme {
+  primary?: string;
+  accent?: string;
+}
+
+export function Chat({
+  id,
+  initialMessages,
+  locale,
+  onLocaleChange,
+  currency,
+  onCurrencyChange,
+  display,
+  onFinish,
+  onItinerary,
+  onAddListing,
+  greetingText,
+  context,
+  theme,
+  pendingMessage,
+  onClose,
+  compact = false,
+}: {
+  id: string;
+  initialMessages: Message[];
+  locale: Locale;
+  onLocaleChange: (locale: Locale) => void;
+  currency?: string;
+  onCurrencyChange: (currency: string) => void;
+  display?: PriceDisplay;
+  onFinish: (message: Message) => void;
+  onItinerary?: (itinerary: Itinerary) => void;
+  // Listings get an "add to itinerary" button only when this is set.
+  onAddListing?: (listing: ListingSummary) => void;
+  // The options below are set by the embeddable widget (`/embed`).
+  greetingText?: string;
+  context?: PageContextInput;
+  theme?: ChatTheme;
+  // Sent as soon as it arrives; a new `id` sends another.
+  pendingMessage?: { id: string; text: string };
+  onClose?: () => void;
+  // Fills its container instead of sizing itself for the full page.
+  compact?: boolean;
+}) {
+  const {
+    messages,
+    input,
+    handleInputChange,
+    handleSubmit,
+    isLoading,
+    error,
+    stop,
+    reload,
+    append,
+    setMessages,
+  } = useChat({
+    api: '/api/chat',
+    id,
+    initialMessages: [greeting, ...initialMessages],
+    // The server keeps the history, so only the new message is sent.
+    experimental_prepareRequestBody: ({ messages }) => ({
+      id,
+      message: messages[messages.length - 1],
+      currency,
+      locale,
+      timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+      context,
+    }),
+    onFinish,
+    onError: (error) => {
+      console.error('Chat Error:', error);
+    },
+  });
+
+  const strings = UI_STRINGS[locale];
+  const [editing, setEditing] = useState<{ id: string; draft: string }>();
+
+  // Resending a message under its own ID tells the server to drop
+  // everything after it, so edits rewrite history instead of appending.
+  const submitEdit = () => {
+    if (!editing?.draft.trim()) return;
+    const index = messages.findIndex((m) => m.id === editing.id);
+    setMessages(messages.slice(0, index));
+    append({ id: editing.id, role: 'user', content: editing.draft.trim() });
+    setEditing(undefined);
+  };
+
+  const lastMessage = messages[messages.length - 1];
+  const canRegenerate =
+    !isLoading && lastMessage?.id !== greeting.id && messages.length > 1;
+
+  // Tool results already in the saved history are reflected in the stored
+  // itinerary, so only results that arrive in this session are applied.
+  const seenToolCalls = useRef(
+    new Set(
+      initialMessages.flatMap(
+        (m) => m.toolInvocations?.map((t) => t.toolCallId) ?? []
+      )
+    )
+  );
+
+  useEffect(() => {
+    for (const m of messages) {
+      for (const invocation of m.toolInvocations ?? []) {
+        if (
+          invocation.state === 'result' &&
+          ITINERARY_TOOLS.has(invocation.toolName) &&
+          invocation.result?.itinerary &&
+          !seenToolCalls.current.has(invocation.toolCallId)
+        ) {
+          seenToolCalls.current.add(invocation.toolCallId);
+          onItinerary?.(invocation.result.itinerary);
+        }
+      }
+    }
+  }, [messages, onItinerary]);
+
+  const sentPending = useRef<string>(undefined);
+  useEffect(() => {
+    if (!pendingMessage || sentPending.current === pendingMessage.id) return;
+    sentPending.current = pendingMessage.id;
+    append({ role: 'user', content: pendingMessage.text });
+  }, [pendingMessage, append]);
+
+  const onSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    try {
+      await handleSubmit(e);
+    } catch (err) {
+      console.error('Submit Error:', err);
+    }
+  };
+
+  return (
+    <Card
+      className={
+        compact
+          ? 'flex h-full w-full flex-col overflow-hidden rounded-none border-0'
+          : 'w-full max-w-2xl shadow-lg rounded-2xl overflow-hidden border-0'
+      }
+    >
+      <CardHeader
+        className={`bg-gradient-to-r from-blue-600 to-purple-600 text-white ${
+          compact ? 'p-4' : ''
+        }`}
+        style={
+          theme && {
+            backgroundImage: `linear-gradient(to right, ${
+              theme.primary ?? '#2563eb'
+            }, ${theme.accent ?? theme.primary ?? '#9333ea'})`,
+          }
+        }
+      >
+        <CardTitle className='flex items-center gap-2'>
+          <Wand2 className='w-6 h-6' />
+          <span>{strings.title}</span>
+          <button
+            type='button'
+            onClick={() => onLocaleChange(locale === 'ar' ? 'en' : 'ar')}
+            lang={locale === 'ar' ? 'en' : 'ar'}
+            className='ms-auto rounded-md bg-white/20 px-2 py-1 text-sm font-normal hover:bg-white/30'
+          >
+            {strings.switchLanguage}
+          </button>
+          <select
+            aria-label='Currency'
+            value={currency ?? ''}
+            onChange={(e) => onCurrencyChange(e.target.value)}
+            className='rounded-md bg-white/20 px-2 py-1 text-sm font-normal text-white [&>option]:text-gray-900'
+          >
+            <option value=''>{strings.listingCurrency}</option>
+            {SUPPORTED_CURRENCIES.map((code) => (
+              <option key={code} value={code}>
+                {code}
+              </option>
+            ))}
+          </select>
+          {onClose && (
+            <button
+              type='button'
+              onClick={onClose}
+              aria-label={strings.close}
+              title={strings.close}
+              className='rounded-md p-1 hover:bg-white/20'
+            >
+              <X className='w-5 h-5' />
+            </button>
+          )}
+        </CardTitle>
+      </CardHeader>
+
+      <CardContent
+        className={`${
+          compact ? 'flex-1 p-4' : 'h-[60vh] p-6'
+        } overflow-y-auto space-y-6 bg-white`}
+      >
+        {error && (
+          <Alert variant='destructive' className='mb-4'>
+            <AlertCircle className='h-4 w-4' />
+            <AlertDescription className='flex items-center gap-2'>
+              {describeError(error, strings)}
+              {canRegenerate && lastMessage.role === 'user' && (
+                <Button
+                  size='sm'
+                  variant='outline'
+                  onClick={() => reload()}
+                  className='ms-auto'
+                >
+                  <RotateCcw className='w-4 h-4' />
+                  {strings.regenerate}
+                </Button>
+              )}
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {messages.map((m) => (
+          <div
+            key={m.id}
+            className={`flex ${
+              m.role === 'user' ? 'justify-end' : 'justify-start'
+            }`}
+          >
+            <div
+              className={`max-w-[80%] p-4 rounded-2xl ${
+                m.role === 'user'
+                  ? 'bg-blue-600 text-white'
+                  : 'bg-gray-100 text-gray-800'
+              }`}
+              style={
+                m.role === 'user' && theme?.primary
+                  ? { backgroundColor: theme.primary }
+                  : undefined
+              }
+            >
+              <div className='flex items-center gap-2 mb-2'>
+                {m.role === 'user' ? (
+                  <User className='w-5 h-5' />
+                ) : (
+                  <Bot className='w-5 h-5 text-purple-600' />
+                )}
+                <span className='text-sm font-medium'>
+                  {m.role === 'user' ? strings.you : strings.assistant}
+                </span>
+                {m.role === 'user' && !isLoading && !editing && (
+                  <button
+                    type='button'
+                    onClick={() => setEditing({ id: m.id, draft: m.content })}
+                    aria-label={strings.edit}
+                    title={strings.edit}
+                    className='ms-auto opacity-70 hover:opacity-100'
+                  >
+                    <Pencil className='w-4 h-4' />
+                  </button>
+                )}
+                {m === lastMessage &&
+                  m.role === 'assistant' &&
+                  canRegenerate && (
+                    <button
+                      type='button'
+                      onClick={() => reload()}
+                      aria-label={strings.regenerate}
+                      title={strings.regenerate}
+                      className='ms-auto text-gray-500 hover:text-gray-700'
+                    >
+                      <RotateCcw className='w-4 h-4' />
+                    </button>
+                  )}
+              </div>
+              {editing?.id === m.id ? (
+                <div className='space-y-2'>
+                  <textarea
+                    value={editing.draft}
+                    onChange={(e) =>
+                      setEditing({ id: m.id, draft: e.target.value })
+                    }
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter' && !e.shiftKey) {
+                        e.preventDefault();
+                        submitEdit();
+                      }
+                    }}
+                    dir='auto'
+                    rows={3}
+                    autoFocus
+                    className='w-full min-w-64 rounded-lg p-2 text-gray-900'
+                  />
+                  <div className='flex justify-end gap-2'>
+                    <Button
+                      size='sm'
+                      variant='ghost'
+                      onClick={() => setEditing(undefined)}
+                      className='text-white hover:bg-blue-500 hover:text-white'
+                    >
+                      {strings.cancel}
+                    </Button>
+                    <Button
+                      size='sm'
+                      variant='secondary'
+                      onClick={submitEdit}
+                    >
+                      {strings.save}
+                    </Button>
+                  </div>
+                </div>
+              ) : (
+                // Each message lays out in its own language's direction.
+                <div dir='auto'>
+                  <ReactMarkdown
+                    remarkPlugins={[remarkGfm]}
+                    className={`prose ${
+                      m.role === 'user' ? 'text-white' : 'text-gray-800'
+                    } max-w-none`}
+                  >
+                    {m.id === greeting.id
+                      ? greetingText ?? strings.greeting
+                      : groundingOf(m)?.correctedText ?? m.content}
+                  </ReactMarkdown>
+                </div>
+              )}
+              <GroundingNote message={m} strings={strings} />
+              {m.toolInvocations?.map((invocation) =>
+                // Comparisons carry listings too, but show as a table.
+                invocation.toolName === 'compareListings' &&
+                invocation.state === 'result' &&
+                invocation.result?.success ? (
+                  <div key={invocation.toolCallId} className='mt-3'>
+                    <ComparisonTable comparison={invocation.result} />
+                  </div>
+                ) : LISTING_TOOL_NAMES.has(invocation.toolName) &&
+                  invocation.state === 'result' ? (
+                  <div key={invocation.toolCallId} className='mt-3'>
+                    <ListingCarousel
+                      listings={extractListings(invocation.result, locale)}
+                      strings={strings}
+                      display={display}
+                      onAdd={onAddListing}
+                    />
+                  </div>
+                ) : null
+              )}
+            </div>
+          </div>
+        ))}
+
+        {isLoading && (
+          <div className='flex justify-start'>
+            <div className='max-w-[80%] p-4 rounded-2xl bg-gray-100 text-gray-800'>
+              <div className='flex items-center gap-2'>
+                <Bot className='w-5 h-5 text-purple-600 animate-pulse' />
+                <span className='text-sm font-medium'>{strings.typing}</span>
+              </div>
+            </div>
+          </div>
+        )}
+      </CardContent>
+
+      <CardFooter
+        className={`flex flex-col space-y-4 ${
+          compact ? 'p-4' : 'p-6'
+        } bg-gray-50 border-t`}
+      >
+        {/* <div className='flex flex-wrap gap-2 justify-center'>
+          {promptStarters.map((prompt, index) => (
+            <Button
+              key={index}
+              variant='outline'
+              onClick={() => append({ content: prompt, role: 'user' })}
+              className='rounded-full bg-white hover:bg-blue-50 text-blue-600 border-blue-200 hover:border-blue-300 transition-all'
+            >
+              {prompt}
+            </Button>
+          ))}
+        </div> */}
+
+        <form onSubmit={onSubmit} className='flex w-full gap-2'>
+          <Input
+            value={input}
+            onChange={handleInputChange}
+            dir='auto'
+            placeholder={strings.placeholder}
+            className='flex-grow rounded-full bg-white border-gray-200 focus:border-blue-500 focus:ring-1 focus:ring-blue-500'
+          />
+          {isLoading ? (
+            // Aborting the request also stops the tools' backend calls.
+            <Button
+              type='button'
+              onClick={stop}
+              className='rounded-full bg-gray-700 hover:bg-gray-800 text-white px-6 transition-all'
+            >
+              <Square className='w-4 h-4 fill-current' />
+              {strings.stop}
+            </Button>
+          ) : (
+            <Button
+              type='submit'
+              className='rounded-full bg-blue-600 hover:bg-blue-700 text-white px-6 transition-all'
+              style={
+                theme?.primary ? { backgroundColor: theme.primary } : undefined
+              }
+            >
+              {strings.send}
+            </Button>
+          )}
+        </form>
+      </CardFooter>
+    </Card>
+  );
+}
@@ -0,0 +1,136 @@
+import { Check, ExternalLink, Star } from 'lucide-react';
+import type {
+  ComparedListing,
+  ListingComparison,
+} from '@/lib/listing-comparison';
+import { formatPrice } from '@/lib/listings';
+
+type BestKey = keyof ListingComparison['best'];
+
+interface Row {
+  label: string;
+  best?: BestKey;
+  render: (listing: ComparedListing) => React.ReactNode;
+}
+
+const rows: Row[] = [
+  {
+    label: 'Price per person',
+    best: 'cheapest',
+    render: (l) =>
+      l.pricePerPerson !== undefined
+        ? formatPrice(l.pricePerPerson, l.currency)
+        : '–',
+  },
+  {
+    label: 'Duration',
+    best: 'shortest',
+    render: (l) => l.durationText ?? '–',
+  },
+  {
+    label: 'Price per hour',
+    best: 'bestValue',
+    render: (l) =>
+      l.pricePerHour !== undefined
+        ? formatPrice(l.pricePerHour, l.currency)
+        : '–',
+  },
+  {
+    label: 'Rating',
+    best: 'highestRated',
+    render: (l) =>
+      l.rating !== undefined ? (
+        <span className='inline-flex items-center gap-1'>
+          <Star className='w-3.5 h-3.5 fill-yellow-400 text-yellow-400' />
+          {l.rating.toFixed(1)}
+        </span>
+      ) : (
+        '–'
+      ),
+  },
+  {
+    label: 'Reviews',
+    best: 'mostReviewed',
+    render: (l) => l.reviewsCount?.toLocaleString('en-US') ?? '–',
+  },
+  {
+    label: 'Included',
+    render: (l) =>
+      l.inclusions.length > 0 ? (
+        <ul className='space-y-0.5'>
+          {l.inclusions.map((item) => (
+            <li key={item} className='flex gap-1'>
+              <Check className='w-3.5 h-3.5 mt-0.5 shrink-0 text-green-600' />
+              {item}
+            </li>
+          ))}
+        </ul>
+      ) : (
+        '–'
+      ),
+  },
+  {
+    label: 'Cancellation',
+    render: (l) => l.cancellationPolicy ?? '–',
+  },
+];
+
+export function ComparisonTable({
+  comparison,
+}: {
+  comparison: ListingComparison;
+}) {
+  const { listings, best } = comparison;
+
+  return (
+    <div className='overflow-x-auto rounded-lg border bg-white'>
+      <table className='w-full text-sm text-start align-top'>
+        <thead className='bg-gray-50'>
+          <tr>
+            <th className='p-2 w-28' />
+            {listings.map((listing) => (
+              <th key={listing.id} className='p-2 font-semibold align-top'>
+                <a
+                  href={listing.url}
+                  target='_blank'
+                  rel='noopener noreferrer'
+                  className='text-gray-900 hover:text-blue-600'
+                >
+                  {listing.title}
+                  <ExternalLink className='inline w-3 h-3 ms-1' />
+                </a>
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((row) => (
+            <tr key={row.label} className='border-t'>
+              <th className='p-2 font-medium text-gray-500 align-top'>
+                {row.label}
+              </th>
+              {listings.map((listing) => {
+                const isBest = row.best && best[row.best] === listing.id;
+                return (
+                  <td
+                    key={listing.id}
+                    className={`p-2 align-top text-gray-700 ${
+                      isBest ? 'bg-green-50 font-semibold text-green-800' : ''
+                    }`}
+                  >
+                    {row.render(listing)}
+                  </td>
+                );
+              })}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      {comparison.mixedCurrencies && (
+        <p className='p-2 text-xs text-gray-500'>
+          Prices are in different currencies, so they are not ranked.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,119 @@
+'use client';
+
+import { generateId, type Message } from 'ai';
+import { useCallback, useEffect, useState } from 'react';
+import { Chat } from '@/components/chat';
+import type { RatesResponse } from '@/lib/currency';
+import {
+  isWidgetMessage,
+  type EmbedConfig,
+  type EmbedToWidgetMessage,
+} from '@/lib/embed';
+import {
+  DEFAULT_LOCALE,
+  isLocale,
+  textDirection,
+  type Locale,
+} from '@/lib/i18n';
+
+/** The chat as shown inside the widget's iframe. */
+export function EmbedChat({ config }: { config: EmbedConfig }) {
+  const { hostOrigin, shareMessages } = config;
+  // Posted only to the origin the widget reported; the browser drops the
+  // message if the parent page is actually somewhere else.
+  const notifyWidget = useCallback(
+    (message: EmbedToWidgetMessage) => {
+      if (!hostOrigin || window.parent === window) return;
+      window.parent.postMessage(message, hostOrigin);
+    },
+    [hostOrigin]
+  );
+
+  const [chatId, setChatId] = useState<string>();
+  const [locale, setLocale] = useState<Locale>(
+    config.locale ?? DEFAULT_LOCALE
+  );
+  const [currency, setCurrency] = useState<string>();
+  const [rates, setRates] = useState<RatesResponse>();
+  const [pending, setPending] = useState<{ id: string; text: string }>();
+
+  const chooseLocale = useCallback((next: Locale) => {
+    setLocale(next);
+    document.documentElement.lang = next;
+    document.documentElement.dir = textDirection(next);
+  }, []);
+
+  useEffect(() => {
+    // Without a configured language, follow the one the layout picked.
+    const initial = document.documentElement.lang;
+    if (config.locale) {
+      chooseLocale(config.locale);
+    } else if (isLocale(initial)) {
+      setLocale(initial);
+    }
+    setChatId(generateId());
+    fetch('/api/exchange-rates')
+      .then((res) => (res.ok ? res.json() : undefined))
+      .then(setRates)
+      .catch((err) => console.error('Failed to load exchange rates:', err));
+  }, [config.locale, chooseLocale]);
+
+  useEffect(() => {
+    const onMessage = (event: MessageEvent) => {
+      if (
+        event.source !== window.parent ||
+        event.origin !== hostOrigin ||
+        !isWidgetMessage(event.data)
+      ) {
+        return;
+      }
+      const text = event.data.text.trim();
+      if (text) setPending({ id: generateId(), text });
+    };
+    window.addEventListener('message', onMessage);
+    notifyWidget({ type: 'ithaka:ready' });
+    return () => window.removeEventListener('message', onMessage);
+  }, [hostOrigin, notifyWidget]);
+
+  // Answers only leave the iframe for sites on the allow-list.
+  const onFinish = useCallback(
+    (message: Message) => {
+      if (!shareMessages) return;
+      notifyWidget({
+        type: 'ithaka:message',
+        message: {
+          id: message.id,
+          role: message.role,
+          content: message.content,
+        },
+      });
+    },
+    [shareMessages, notifyWidget]
+  );
+
+  if (!chatId) return null;
+  return (
+    <div className='h-screen'>
+      <Chat
+        id={chatId}
+        initialMessages={[]}
+        locale={locale}
+        onLocaleChange={chooseLocale}
+        currency={currency}
+        onCurrencyChange={(next) => setCurrency(next || undefined)}
+        display={
+          currency && rates
+            ? { currency, rates, backendCurrency: rates.backendCurrency }
+            : undefined
+        }
+        onFinish={onFinish}
+        greetingText={config.greeting}
+        context={config.context}
+        theme={config.theme}
+        pendingMessage={pending}
+        onClose={() => notifyWidget({ type: 'ithaka:close' })}
+        compact
+      />
+    </div>
+  );
+}
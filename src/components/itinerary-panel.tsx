@@ -0,0 +1,280 @@
+'use client';
+
+import { useState } from 'react';
+import {
+  ArrowDown,
+  ArrowUp,
+  CalendarDays,
+  ChevronLeft,
+  ChevronRight,
+  ExternalLink,
+  Link2,
+  MapPin,
+  Printer,
+  Trash2,
+} from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import {
+  groupByDay,
+  moveItem,
+  removeItem,
+  type Itinerary,
+  type ItineraryItem,
+} from '@/lib/itinerary';
+import { formatPrice } from '@/lib/listings';
+
+interface ItineraryPanelProps {
+  itinerary: Itinerary;
+  onChange: (itinerary: Itinerary) => void;
+}
+
+const exportLinkClass =
+  'flex items-center gap-1 text-xs font-medium text-blue-600 hover:text-blue-700 aria-disabled:pointer-events-none aria-disabled:opacity-40';
+
+function ExportActions({
+  chatId,
+  itinerary,
+}: {
+  chatId: string;
+  itinerary: Itinerary;
+}) {
+  const [shareUrl, setShareUrl] = useState<string>();
+  const [shareError, setShareError] = useState<string>();
+  const exportUrl = `/api/chats/${chatId}/itinerary/export`;
+  const isEmpty = itinerary.items.length === 0;
+
+  const share = async () => {
+    setShareError(undefined);
+    const res = await fetch(`/api/chats/${chatId}/share`, { method: 'POST' });
+    const data = await res.json();
+    if (!res.ok) {
+      setShareError(data.error ?? 'Could not create a share link.');
+      return;
+    }
+    setShareUrl(data.url);
+    navigator.clipboard?.writeText(data.url).catch(() => {});
+  };
+
+  return (
+    <div className='space-y-2'>
+      <div className='flex items-center gap-3'>
+        <a
+          href={`${exportUrl}?format=ics`}
+          aria-disabled={isEmpty || !itinerary.startDate}
+          title={
+            itinerary.startDate
+              ? 'Download calendar file'
+              : 'Set a start date to export to a calendar'
+          }
+          className={exportLinkClass}
+        >
+          <CalendarDays className='w-3.5 h-3.5' />
+          .ics
+        </a>
+        <a
+          href={exportUrl}
+          target='_blank'
+          rel='noopener noreferrer'
+          aria-disabled={isEmpty}
+          className={exportLinkClass}
+        >
+          <Printer className='w-3.5 h-3.5' />
+          Print
+        </a>
+        <button
+          type='button'
+          onClick={share}
+          disabled={isEmpty}
+          className={`${exportLinkClass} disabled:pointer-events-none disabled:opacity-40`}
+        >
+          <Link2 className='w-3.5 h-3.5' />
+          Share
+        </button>
+      </div>
+      {shareUrl && (
+        <p className='text-xs text-gray-500 break-all'>
+          Link copied:{' '}
+          <a href={shareUrl} target='_blank' rel='noopener noreferrer'>
+            {shareUrl}
+          </a>
+        </p>
+      )}
+      {shareError && <p className='text-xs text-red-600'>{shareError}</p>}
+    </div>
+  );
+}
+
+function IconButton({
+  label,
+  onClick,
+  disabled,
+  children,
+}: {
+  label: string;
+  onClick: () => void;
+  disabled?: boolean;
+  children: React.ReactNode;
+}) {
+  return (
+    <button
+      type='button'
+      aria-label={label}
+      title={label}
+      onClick={onClick}
+      disabled={disabled}
+      className='p-1 rounded text-gray-400 hover:text-gray-700 hover:bg-gray-100 disabled:opacity-30 disabled:pointer-events-none'
+    >
+      {children}
+    </button>
+  );
+}
+
+function ItemRow({
+  item,
+  index,
+  count,
+  itinerary,
+  onChange,
+}: ItineraryPanelProps & {
+  item: ItineraryItem;
+  index: number;
+  count: number;
+}) {
+  return (
+    <li className='rounded-lg border bg-white p-2 text-sm'>
+      <div className='flex items-start justify-between gap-2'>
+        <a
+          href={item.url}
+          target='_blank'
+          rel='noopener noreferrer'
+          className='font-medium text-gray-800 hover:text-blue-600 leading-snug'
+        >
+          {item.title}
+          <ExternalLink className='inline w-3 h-3 ms-1' />
+        </a>
+        <IconButton
+          label='Remove'
+          onClick={() => onChange(removeItem(itinerary, item.id))}
+        >
+          <Trash2 className='w-3.5 h-3.5' />
+        </IconButton>
+      </div>
+      <div className='flex items-center justify-between mt-1 text-xs text-gray-500'>
+        <span>
+          {item.price !== undefined && formatPrice(item.price, item.currency)}
+          {item.destination && ` · ${item.destination}`}
+        </span>
+        <span className='flex'>
+          <IconButton
+            label='Move up'
+            disabled={index === 0}
+            onClick={() =>
+              onChange(moveItem(itinerary, item.id, { position: index - 1 }))
+            }
+          >
+            <ArrowUp className='w-3.5 h-3.5' />
+          </IconButton>
+          <IconButton
+            label='Move down'
+            disabled={index === count - 1}
+            onClick={() =>
+              onChange(moveItem(itinerary, item.id, { position: index + 1 }))
+            }
+          >
+            <ArrowDown className='w-3.5 h-3.5' />
+          </IconButton>
+          <IconButton
+            label='Previous day'
+            disabled={item.day === 1}
+            onClick={() =>
+              onChange(moveItem(itinerary, item.id, { day: item.day - 1 }))
+            }
+          >
+            <ChevronLeft className='w-3.5 h-3.5' />
+          </IconButton>
+          <IconButton
+            label='Next day'
+            onClick={() =>
+              onChange(moveItem(itinerary, item.id, { day: item.day + 1 }))
+            }
+          >
+            <ChevronRight className='w-3.5 h-3.5' />
+          </IconButton>
+        </span>
+      </div>
+    </li>
+  );
+}
+
+export function ItineraryPanel({
+  chatId,
+  itinerary,
+  onChange,
+}: ItineraryPanelProps & { chatId?: string }) {
+  const days = groupByDay(itinerary);
+
+  return (
+    <Card className='hidden xl:flex flex-col w-72 shrink-0 shadow-lg rounded-2xl overflow-hidden border-0'>
+      <CardHeader className='p-4 bg-white border-b space-y-3'>
+        <CardTitle className='flex items-center gap-2 text-base'>
+          <CalendarDays className='w-5 h-5 text-purple-600' />
+          <span>Trip plan</span>
+        </CardTitle>
+        <label className='flex items-center gap-2 text-xs text-gray-500'>
+          Starts
+          <Input
+            type='date'
+            value={itinerary.startDate ?? ''}
+            onChange={(e) =>
+              onChange({
+                ...itinerary,
+                startDate: e.target.value || undefined,
+              })
+            }
+            className='h-8 text-sm'
+          />
+        </label>
+        {chatId && (
+          <ExportActions key={chatId} chatId={chatId} itinerary={itinerary} />
+        )}
+      </CardHeader>
+      <CardContent className='p-4 flex-grow overflow-y-auto bg-gray-50 space-y-4'>
+        {days.length === 0 && (
+          <p className='text-sm text-gray-500'>
+            Ask the assistant to plan your trip, or add activities from the
+            search results.
+          </p>
+        )}
+        {days.map(({ day, date, destinations, items }) => (
+          <section key={day} className='space-y-2'>
+            <h3 className='text-sm font-semibold text-gray-800'>
+              Day {day}
+              {date && (
+                <span className='font-normal text-gray-500'> · {date}</span>
+              )}
+            </h3>
+            {destinations.length > 0 && (
+              <p className='flex items-center gap-1 text-xs text-gray-500'>
+                <MapPin className='w-3 h-3' />
+                {destinations.join(', ')}
+              </p>
+            )}
+            <ul className='space-y-2'>
+              {items.map((item, index) => (
+                <ItemRow
+                  key={item.id}
+                  item={item}
+                  index={index}
+                  count={items.length}
+                  itinerary={itinerary}
+                  onChange={onChange}
+                />
+              ))}
+            </ul>
+          </section>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,173 @@
+import { Clock, ExternalLink, MapPin, Plus, Star } from 'lucide-react';
+import {
+  Card,
+  CardContent,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { convert, type ExchangeRates } from '@/lib/currency';
+import type { UiStrings } from '@/lib/i18n';
+import { formatPrice, type ListingSummary } from '@/lib/listings';
+
+// The user's chosen currency and the rates to show listing prices in it.
+export interface PriceDisplay {
+  currency: string;
+  rates: ExchangeRates;
+  // What listings without their own currency are priced in.
+  backendCurrency?: string;
+}
+
+interface ListingCardProps {
+  listing: ListingSummary;
+  strings: UiStrings;
+  display?: PriceDisplay;
+  // When set, the card shows an "Add to trip" action.
+  onAdd?: (listing: ListingSummary) => void;
+}
+
+function ListingPrice({
+  listing,
+  strings,
+  display,
+}: {
+  listing: ListingSummary;
+  strings: UiStrings;
+  display?: PriceDisplay;
+}) {
+  if (listing.price === undefined) {
+    return (
+      <span className='font-semibold text-gray-900'>
+        {strings.priceOnRequest}
+      </span>
+    );
+  }
+
+  const base = listing.currency ?? display?.backendCurrency;
+  const original = formatPrice(listing.price, base);
+  // Prefer the server's conversion, so the card and the answer agree.
+  const converted =
+    listing.userPrice && listing.userPrice.currency === display?.currency
+      ? listing.userPrice.amount
+      : display && base && display.currency !== base
+        ? convert(listing.price, base, display.currency, display.rates)
+        : undefined;
+
+  if (converted === undefined) {
+    return <span className='font-semibold text-gray-900'>{original}</span>;
+  }
+  return (
+    <span className='flex flex-col leading-tight'>
+      <span className='font-semibold text-gray-900'>
+        ≈ {formatPrice(Math.round(converted), display?.currency)}
+      </span>
+      <span className='text-xs text-gray-500'>{original}</span>
+    </span>
+  );
+}
+
+export function ListingCard({
+  listing,
+  strings,
+  display,
+  onAdd,
+}: ListingCardProps) {
+  return (
+    <Card className='w-64 shrink-0 snap-start overflow-hidden flex flex-col'>
+      {listing.imageUrl ? (
+        // eslint-disable-next-line @next/next/no-img-element
+        <img
+          src={listing.imageUrl}
+          alt={listing.title}
+          loading='lazy'
+          className='h-36 w-full object-cover'
+        />
+      ) : (
+        <div className='h-36 w-full bg-gradient-to-br from-blue-100 to-purple-100' />
+      )}
+      <CardHeader className='p-4 pb-2'>
+        <CardTitle className='text-base leading-snug line-clamp-2'>
+          {listing.title}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className='p-4 pt-0 space-y-1 text-sm text-gray-600 flex-grow'>
+        {listing.destination && (
+          <div className='flex items-center gap-1'>
+            <MapPin className='w-4 h-4' />
+            <span>{listing.destination}</span>
+          </div>
+        )}
+        {listing.duration && (
+          <div className='flex items-center gap-1'>
+            <Clock className='w-4 h-4' />
+            <span>{listing.duration}</span>
+          </div>
+        )}
+        {listing.rating !== undefined && (
+          <div className='flex items-center gap-1'>
+            <Star className='w-4 h-4 fill-yellow-400 text-yellow-400' />
+            <span>
+              {listing.rating.toFixed(1)}
+              {listing.reviewsCount !== undefined &&
+                ` (${listing.reviewsCount})`}
+            </span>
+          </div>
+        )}
+      </CardContent>
+      <CardFooter className='p-4 pt-0 flex items-center justify-between'>
+        <ListingPrice listing={listing} strings={strings} display={display} />
+        <div className='flex items-center gap-3'>
+          {onAdd && (
+            <button
+              type='button'
+              onClick={() => onAdd(listing)}
+              className='flex items-center gap-1 text-sm font-medium text-purple-600 hover:text-purple-700'
+            >
+              <Plus className='w-4 h-4' />
+              {strings.addToTrip}
+            </button>
+          )}
+          <a
+            href={listing.url}
+            target='_blank'
+            rel='noopener noreferrer'
+            className='flex items-center gap-1 text-sm font-medium text-blue-600 hover:text-blue-700'
+          >
+            {strings.book}
+            <ExternalLink className='w-4 h-4' />
+          </a>
+        </div>
+      </CardFooter>
+    </Card>
+  );
+}
+
+export function ListingCarousel({
+  listings,
+  strings,
+  display,
+  onAdd,
+}: {
+  listings: ListingSummary[];
+  strings: UiStrings;
+  display?: PriceDisplay;
+  onAdd?: (listing: ListingSummary) => void;
+}) {
+  if (listings.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className='flex gap-4 overflow-x-auto snap-x snap-mandatory pb-2'>
+      {listings.map((listing) => (
+        <ListingCard
+          key={listing.id}
+          listing={listing}
+          strings={strings}
+          display={display}
+          onAdd={onAdd}
+        />
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,162 @@
+import type { Message } from "ai";
+import type { BucketConfig } from "@/lib/rate-limit";
+
+export interface ChatLimits {
+    maxBodyBytes: number;
+    // Characters in the newest user message.
+    maxMessageChars: number;
+    // Messages sent to the model; older turns of stored chats are dropped.
+    maxHistoryMessages: number;
+    // Model/tool round trips per request.
+    maxSteps: number;
+    ip: BucketConfig;
+    session: BucketConfig;
+}
+
+function positive(value: string | undefined, fallback: number) {
+    const parsed = Number(value);
+    return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+/**
+ * Reads the abuse limits for /api/chat from env. Rate limits are requests per
+ * minute per client IP and per visitor, with bursts up to the same amount.
+ */
+export function getChatLimits(env = process.env): ChatLimits {
+    const ipPerMinute = positive(env.CHAT_RATE_LIMIT_IP, 20);
+    const sessionPerMinute = positive(env.CHAT_RATE_LIMIT_SESSION, 10);
+    return {
+        maxBodyBytes: positive(env.CHAT_MAX_BODY_BYTES, 512 * 1024),
+        maxMessageChars: positive(env.CHAT_MAX_MESSAGE_CHARS, 2_000),
+        maxHistoryMessages: positive(env.CHAT_MAX_HISTORY_MESSAGES, 50),
+        maxSteps: Math.min(positive(env.CHAT_MAX_STEPS, 10), 20),
+        ip: { capacity: ipPerMinute, refillPerMinute: ipPerMinute },
+        session: {
+            capacity: sessionPerMinute,
+            refillPerMinute: sessionPerMinute,
+        },
+    };
+}
+
+// Lets the page show its own, localized wording for each failure.
+export type ChatInputErrorCode =
+    | "too_large"
+    | "invalid_request"
+    | "too_many_messages"
+    | "message_too_long";
+
+export class ChatInputError extends Error {
+    constructor(
+        message: string,
+        readonly code: ChatInputErrorCode,
+        readonly status = 413,
+        // The limit that was exceeded, for the localized message.
+        readonly limit?: number
+    ) {
+        super(message);
+        this.name = "ChatInputError";
+    }
+}
+
+/** The fields of a chat request; the rest (locale, currency...) are optional. */
+export interface ChatRequestBody extends Record<string, unknown> {
+    id?: unknown;
+    message?: Message;
+    messages?: Message[];
+}
+
+function invalidRequest(message: string) {
+    return new ChatInputError(message, "invalid_request", 400);
+}
+
+function isMessage(value: unknown): value is Message {
+    return (
+        typeof value === "object" &&
+        value !== null &&
+        typeof (value as { content?: unknown }).content === "string"
+    );
+}
+
+// The one message a persistent chat sends is the user's own: anything else
+// would be saved as history the assistant produced.
+function isUserMessage(value: unknown): value is Message {
+    return (
+        isMessage(value) &&
+        value.role === "user" &&
+        typeof value.id === "string" &&
+        value.id !== ""
+    );
+}
+
+/** Parses the request body, refusing oversized payloads before JSON parsing. */
+export async function readChatBody(
+    req: Request,
+    limits: ChatLimits
+): Promise<ChatRequestBody> {
+    const declared = Number(req.headers.get("content-length"));
+    if (declared > limits.maxBodyBytes) {
+        throw new ChatInputError("Request is too large.", "too_large");
+    }
+    const text = await req.text();
+    if (new TextEncoder().encode(text).length > limits.maxBodyBytes) {
+        throw new ChatInputError("Request is too large.", "too_large");
+    }
+    let body: unknown;
+    try {
+        body = JSON.parse(text);
+    } catch {
+        throw invalidRequest("Request body must be JSON.");
+    }
+    if (typeof body !== "object" || body === null || Array.isArray(body)) {
+        throw invalidRequest("Request body must be a JSON object.");
+    }
+    return body as ChatRequestBody;
+}
+
+/**
+ * Checks the user's newest message and, for stateless requests, how much
+ * history the client sent. Stored history is trimmed instead (see
+ * `recentMessages`) since the client can't shorten it.
+ */
+export function checkChatInput(body: ChatRequestBody, limits: ChatLimits) {
+    if (body.message !== undefined && !isUserMessage(body.message)) {
+        throw invalidRequest("`message` must be a user message.");
+    }
+    if (!body.message && body.messages) {
+        if (
+            !Array.isArray(body.messages) ||
+            !body.messages.every(isMessage)
+        ) {
+            throw invalidRequest("`messages` must be an array of messages.");
+        }
+        if (body.messages.length > limits.maxHistoryMessages) {
+            throw new ChatInputError(
+                `Conversations are limited to ${limits.maxHistoryMessages} messages. Please start a new chat.`,
+                "too_many_messages",
+                413,
+                limits.maxHistoryMessages
+            );
+        }
+    }
+
+    const latest = body.message ?? body.messages?.at(-1);
+    if (
+        typeof latest?.content === "string" &&
+        latest.content.length > limits.maxMessageChars
+    ) {
+        throw new ChatInputError(
+            `Messages are limited to ${limits.maxMessageChars} characters. Please shorten yours.`,
+            "message_too_long",
+            413,
+            limits.maxMessageChars
+        );
+    }
+}
+
+export function recentMessages(messages: Message[], limits: ChatLimits) {
+    if (messages.length <= limits.maxHistoryMessages) return messages;
+    const recent = messages.slice(-limits.maxHistoryMessages);
+    // Don't start the window on an assistant turn.
+    const firstUser = recent.findIndex((m) => m.role === "user");
+    return firstUser > 0 ? recent.slice(firstUser) : recent;
+}
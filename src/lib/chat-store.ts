@@ -0,0 +1,237 @@
+import { randomUUID } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+import type { Message } from "ai";
+import type { Itinerary } from "@/lib/itinerary";
+import { isValidVisitorId } from "@/lib/visitor";
+
+export interface ChatSummary {
+    id: string;
+    title: string;
+    createdAt: string;
+    updatedAt: string;
+}
+
+export interface StoredChat extends ChatSummary {
+    // The visitor ID (see `@/lib/visitor`) the chat belongs to.
+    owner: string;
+    messages: Message[];
+    itinerary?: Itinerary;
+}
+
+/**
+ * Persistence for chat sessions. The route only talks to this interface so
+ * the file store can later be swapped for a database without touching it.
+ *
+ * Every call is scoped to an owner: each visitor has their own chats, and
+ * another visitor's are out of reach even with the same ID.
+ */
+export interface ChatStore {
+    list(owner: string): Promise<ChatSummary[]>;
+    get(id: string, owner: string): Promise<StoredChat | undefined>;
+    // Returns the owner's chat with this ID, creating it if there is none.
+    create(id: string, owner: string, title: string): Promise<StoredChat>;
+    saveMessages(
+        id: string,
+        owner: string,
+        messages: Message[]
+    ): Promise<boolean>;
+    saveItinerary(
+        id: string,
+        owner: string,
+        itinerary: Itinerary
+    ): Promise<boolean>;
+    rename(
+        id: string,
+        owner: string,
+        title: string
+    ): Promise<ChatSummary | undefined>;
+    delete(id: string, owner: string): Promise<boolean>;
+}
+
+// Chat IDs end up in file names, so anything else is rejected outright.
+const CHAT_ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+export function isValidChatId(id: unknown): id is string {
+    return typeof id === "string" && CHAT_ID_PATTERN.test(id);
+}
+
+export function titleFromMessage(content: string) {
+    const title = content.replace(/\s+/g, " ").trim();
+    return title.length > 60 ? `${title.slice(0, 57)}...` : title || "New chat";
+}
+
+function summarize({ id, title, createdAt, updatedAt }: StoredChat) {
+    return { id, title, createdAt, updatedAt };
+}
+
+/**
+ * One JSON file per chat, in a directory per owner
+ * (`<directory>/<visitor>/<chat>.json`), so listing a visitor's chats only
+ * ever reads their own.
+ */
+export class FileChatStore implements ChatStore {
+    // The tail of each chat's pending updates. Parallel tool calls, panel
+    // edits and the end of a stream all read, modify and write the same
+    // file, so updates to one chat run one at a time.
+    private readonly queues = new Map<string, Promise<unknown>>();
+
+    constructor(private readonly directory: string) {}
+
+    private serialize<T>(
+        id: string,
+        owner: string,
+        update: () => Promise<T>
+    ): Promise<T> {
+        const key = `${owner}/${id}`;
+        const previous = this.queues.get(key) ?? Promise.resolve();
+        const next = previous.then(update, update);
+        const tail = next.catch(() => undefined);
+        this.queues.set(key, tail);
+        tail.then(() => {
+            if (this.queues.get(key) === tail) this.queues.delete(key);
+        });
+        return next;
+    }
+
+    // Both end up in the path, so anything else is rejected outright.
+    private ownerDirectory(owner: string) {
+        if (!isValidVisitorId(owner)) {
+            throw new Error(`Invalid chat owner: ${owner}`);
+        }
+        return path.join(this.directory, owner);
+    }
+
+    private file(id: string, owner: string) {
+        if (!isValidChatId(id)) {
+            throw new Error(`Invalid chat id: ${id}`);
+        }
+        return path.join(this.ownerDirectory(owner), `${id}.json`);
+    }
+
+    private async write(chat: StoredChat) {
+        await fs.mkdir(this.ownerDirectory(chat.owner), { recursive: true });
+        // Write then rename so a crash never leaves a half-written chat.
+        const target = this.file(chat.id, chat.owner);
+        const temp = `${target}.${process.pid}.${randomUUID()}.tmp`;
+        await fs.writeFile(temp, JSON.stringify(chat));
+        await fs.rename(temp, target);
+    }
+
+    async list(owner: string) {
+        if (!isValidVisitorId(owner)) return [];
+        let files: string[];
+        try {
+            files = await fs.readdir(this.ownerDirectory(owner));
+        } catch {
+            return [];
+        }
+        const chats = await Promise.all(
+            files
+                .filter((file) => file.endsWith(".json"))
+                .map((file) => this.get(file.slice(0, -".json".length), owner))
+        );
+        return chats
+            .filter((chat): chat is StoredChat => chat !== undefined)
+            .map(summarize)
+            .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+    }
+
+    async get(id: string, owner: string) {
+        if (!isValidChatId(id) || !isValidVisitorId(owner)) return undefined;
+        try {
+            return JSON.parse(
+                await fs.readFile(this.file(id, owner), "utf8")
+            ) as StoredChat;
+        } catch {
+            return undefined;
+        }
+    }
+
+    private newChat(id: string, owner: string, title: string): StoredChat {
+        const now = new Date().toISOString();
+        return {
+            id,
+            owner,
+            title,
+            createdAt: now,
+            updatedAt: now,
+            messages: [],
+        };
+    }
+
+    create(id: string, owner: string, title: string) {
+        return this.serialize(id, owner, async () => {
+            const existing = await this.get(id, owner);
+            if (existing) return existing;
+            const chat = this.newChat(id, owner, title);
+            await this.write(chat);
+            return chat;
+        });
+    }
+
+    // Applies `change` to the owner's chat, creating it if there is none.
+    private update(
+        id: string,
+        owner: string,
+        change: Partial<StoredChat>
+    ) {
+        if (!isValidChatId(id) || !isValidVisitorId(owner)) {
+            return Promise.resolve(false);
+        }
+        return this.serialize(id, owner, async () => {
+            const existing = await this.get(id, owner);
+            await this.write({
+                ...(existing ?? this.newChat(id, owner, "New chat")),
+                ...change,
+                updatedAt: new Date().toISOString(),
+            });
+            return true;
+        });
+    }
+
+    saveMessages(id: string, owner: string, messages: Message[]) {
+        return this.update(id, owner, { messages });
+    }
+
+    saveItinerary(id: string, owner: string, itinerary: Itinerary) {
+        return this.update(id, owner, { itinerary });
+    }
+
+    rename(id: string, owner: string, title: string) {
+        return this.serialize(id, owner, async () => {
+            const chat = await this.get(id, owner);
+            if (!chat) return undefined;
+            const renamed = {
+                ...chat,
+                title,
+                updatedAt: new Date().toISOString(),
+            };
+            await this.write(renamed);
+            return summarize(renamed);
+        });
+    }
+
+    delete(id: string, owner: string) {
+        if (!isValidChatId(id) || !isValidVisitorId(owner)) {
+            return Promise.resolve(false);
+        }
+        return this.serialize(id, owner, async () => {
+            try {
+                await fs.unlink(this.file(id, owner));
+                return true;
+            } catch {
+                return false;
+            }
+        });
+    }
+}
+
+let store: ChatStore | undefined;
+
+export function getChatStore(): ChatStore {
+    store ??= new FileChatStore(
+        process.env.CHAT_STORE_DIR ?? path.join(process.cwd(), ".data", "chats")
+    );
+    return store;
+}
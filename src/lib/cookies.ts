@@ -0,0 +1,11 @@
+/** A cookie's value from the request's `Cookie` header. */
+export function readCookie(req: Request, name: string) {
+    for (const pair of req.headers.get("cookie")?.split(";") ?? []) {
+        const separator = pair.indexOf("=");
+        if (separator < 0 || pair.slice(0, separator).trim() !== name) {
+            continue;
+        }
+        return pair.slice(separator + 1).trim();
+    }
+    return undefined;
+}
@@ -0,0 +1,87 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+    DEFAULT_RATES,
+    backendCurrency,
+    convert,
+    detectCurrency,
+    parseBudget,
+} from "@/lib/currency";
+
+describe("parseBudget", () => {
+    it("treats a single amount as a maximum", () => {
+        assert.deepEqual(parseBudget("under 500 EGP"), {
+            max: 500,
+            currency: "EGP",
+        });
+        assert.deepEqual(parseBudget("$50"), { max: 50, currency: "USD" });
+    });
+
+    it("reads a minimum", () => {
+        assert.deepEqual(parseBudget("from 1k pounds"), {
+            min: 1000,
+            currency: "EGP",
+        });
+        assert.deepEqual(parseBudget("at least 2,000 EGP"), {
+            min: 2000,
+            currency: "EGP",
+        });
+    });
+
+    it("reads a range in either order", () => {
+        assert.deepEqual(parseBudget("between 40 and 20 euros"), {
+            min: 20,
+            max: 40,
+            currency: "EUR",
+        });
+    });
+
+    it("reads Arabic digits and currency names", () => {
+        assert.deepEqual(parseBudget("أقل من ٥٠٠ جنيه"), {
+            max: 500,
+            currency: "EGP",
+        });
+    });
+
+    it("keeps the currency when there is no amount", () => {
+        assert.deepEqual(parseBudget("cheap, in dollars"), {
+            currency: "USD",
+        });
+    });
+});
+
+describe("detectCurrency", () => {
+    it("prefers the longer token", () => {
+        assert.equal(detectCurrency("E£200"), "EGP");
+        assert.equal(detectCurrency("US$20"), "USD");
+        assert.equal(detectCurrency("£20"), "GBP");
+    });
+});
+
+describe("convert", () => {
+    it("converts through the base currency", () => {
+        assert.equal(convert(10, "USD", "EGP", DEFAULT_RATES), 485);
+        assert.equal(convert(97, "EGP", "USD", DEFAULT_RATES), 2);
+        assert.equal(
+            convert(37.5, "SAR", "GBP", DEFAULT_RATES)?.toFixed(2),
+            "7.50"
+        );
+    });
+
+    it("returns the amount unchanged for the same currency", () => {
+        assert.equal(convert(12, "XYZ", "XYZ", DEFAULT_RATES), 12);
+    });
+
+    it("returns undefined for an unknown currency", () => {
+        assert.equal(convert(12, "USD", "XYZ", DEFAULT_RATES), undefined);
+    });
+});
+
+describe("backendCurrency", () => {
+    it("defaults to USD", () => {
+        const env = (vars: Record<string, string>) =>
+            vars as NodeJS.ProcessEnv;
+        assert.equal(backendCurrency(env({})), "USD");
+        assert.equal(backendCurrency(env({ ITHAKA_CURRENCY: "EGP" })), "EGP");
+    });
+});
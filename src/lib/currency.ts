@@ -0,0 +1,126 @@
+export const SUPPORTED_CURRENCIES = [
+    "USD",
+    "EGP",
+    "EUR",
+    "GBP",
+    "SAR",
+    "AED",
+] as const;
+
+export type CurrencyCode = (typeof SUPPORTED_CURRENCIES)[number];
+
+export interface ExchangeRates {
+    base: string;
+    // Units of each currency per one unit of `base`.
+    rates: Record<string, number>;
+    // ISO timestamp of when the rates were published.
+    asOf?: string;
+}
+
+/** What `/api/exchange-rates` returns to the page. */
+export interface RatesResponse extends ExchangeRates {
+    // The currency listings without their own are priced in.
+    backendCurrency: string;
+}
+
+// Approximate fallback used when no rates source is configured.
+export const DEFAULT_RATES: ExchangeRates = {
+    base: "USD",
+    rates: {
+        USD: 1,
+        EGP: 48.5,
+        EUR: 0.86,
+        GBP: 0.75,
+        SAR: 3.75,
+        AED: 3.67,
+    },
+    asOf: "2026-10-01T00:00:00Z",
+};
+
+export function isSupportedCurrency(value: unknown): value is CurrencyCode {
+    return (
+        typeof value === "string" &&
+        (SUPPORTED_CURRENCIES as readonly string[]).includes(value)
+    );
+}
+
+/** Converts between any two currencies in the table; undefined if unknown. */
+export function convert(
+    amount: number,
+    from: string,
+    to: string,
+    { rates }: ExchangeRates
+) {
+    if (from === to) return amount;
+    const fromRate = rates[from];
+    const toRate = rates[to];
+    if (!fromRate || !toRate) return undefined;
+    return (amount / fromRate) * toRate;
+}
+
+// Longest tokens first so "E£" wins over "£" and "US$" over "$".
+const CURRENCY_TOKENS: [RegExp, CurrencyCode][] = [
+    [/\b(egp|le|l\.e\.?)\b|e£|ج\.?م|جنيه|جنيهات|\begyptian pounds?\b/i, "EGP"],
+    [/\b(usd|dollars?|bucks)\b|us\$|\$|دولار/i, "USD"],
+    [/\b(eur|euros?)\b|€|يورو/i, "EUR"],
+    [/\b(gbp|sterling|british pounds?)\b|£/i, "GBP"],
+    [/\b(sar|riyals?)\b|ريال/i, "SAR"],
+    [/\b(aed|dirhams?)\b|درهم/i, "AED"],
+    // On an Egypt-focused site a bare "pounds" means Egyptian pounds.
+    [/\bpounds?\b/i, "EGP"],
+];
+
+export function detectCurrency(text: string): CurrencyCode | undefined {
+    return CURRENCY_TOKENS.find(([pattern]) => pattern.test(text))?.[1];
+}
+
+function westernDigits(text: string) {
+    return text.replace(/[٠-٩]/g, (d) => String(d.charCodeAt(0) - 0x0660));
+}
+
+function amounts(text: string) {
+    return (
+        westernDigits(text)
+            .match(/\d[\d,]*(?:\.\d+)?\s*k?\b/gi)
+            ?.map((raw) => {
+                const thousands = /k$/i.test(raw.trim()) ? 1000 : 1;
+                return Number(raw.replace(/[,k\s]/gi, "")) * thousands;
+            })
+            .filter((n) => Number.isFinite(n)) ?? []
+    );
+}
+
+export interface Budget {
+    min?: number;
+    max?: number;
+    currency?: CurrencyCode;
+}
+
+/**
+ * Reads a budget the way people write it: "under 500 EGP", "$50",
+ * "between 20 and 40 euros", "from 1k pounds", "أقل من ٥٠٠ جنيه". A single
+ * amount without a direction is treated as a maximum.
+ */
+export function parseBudget(text: string): Budget {
+    const [first, second] = amounts(text);
+    const currency = detectCurrency(text);
+    if (first === undefined) return { currency };
+
+    if (second !== undefined) {
+        return {
+            min: Math.min(first, second),
+            max: Math.max(first, second),
+            currency,
+        };
+    }
+    const isMinimum =
+        /\b(over|above|more than|at least|from|min(imum)?|starting)\b|أكثر من|فوق|على الأقل/i.test(
+            text
+        );
+    return isMinimum ? { min: first, currency } : { max: first, currency };
+}
+
+/** The currency the Ithaka backend prices and filters in. */
+export function backendCurrency(env = process.env) {
+    return env.ITHAKA_CURRENCY ?? "USD";
+}
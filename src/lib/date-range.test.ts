@@ -0,0 +1,101 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { checkDateRange, resolveDateExpression } from "@/lib/date-range";
+
+// A Monday.
+const today = "2026-10-19";
+
+function resolve(text: string) {
+    const range = resolveDateExpression(text, { today });
+    return range && [range.from, range.to];
+}
+
+describe("resolveDateExpression", () => {
+    it("reads ISO dates as a range", () => {
+        assert.deepEqual(resolve("2026-11-03 to 2026-11-01"), [
+            "2026-11-01",
+            "2026-11-03",
+        ]);
+    });
+
+    it("resolves relative days", () => {
+        assert.deepEqual(resolve("today"), [today, today]);
+        assert.deepEqual(resolve("tomorrow"), ["2026-10-20", "2026-10-20"]);
+        assert.deepEqual(resolve("بكرة"), ["2026-10-20", "2026-10-20"]);
+    });
+
+    it("resolves the coming weekend", () => {
+        assert.deepEqual(resolve("next weekend"), [
+            "2026-10-23",
+            "2026-10-25",
+        ]);
+    });
+
+    it("rolls a month that has passed over to next year", () => {
+        assert.deepEqual(resolve("in march"), ["2027-03-01", "2027-03-31"]);
+        assert.deepEqual(resolve("december"), ["2026-12-01", "2026-12-31"]);
+    });
+
+    it("reads parts of a month and day ranges", () => {
+        assert.deepEqual(resolve("early november"), [
+            "2026-11-01",
+            "2026-11-10",
+        ]);
+        assert.deepEqual(resolve("Dec 3-7"), ["2026-12-03", "2026-12-07"]);
+        assert.deepEqual(resolve("late may 2027"), [
+            "2027-05-21",
+            "2027-05-31",
+        ]);
+    });
+
+    it("reads May as a month only where it is one", () => {
+        assert.deepEqual(resolve("in May"), ["2027-05-01", "2027-05-31"]);
+        assert.deepEqual(resolve("mid-May"), ["2027-05-11", "2027-05-20"]);
+        assert.deepEqual(resolve("May 5"), ["2027-05-05", "2027-05-05"]);
+        assert.deepEqual(resolve("5th may"), ["2027-05-05", "2027-05-05"]);
+        assert.deepEqual(resolve("مايو"), ["2027-05-01", "2027-05-31"]);
+        assert.deepEqual(resolve("may I go next weekend?"), [
+            "2026-10-23",
+            "2026-10-25",
+        ]);
+        assert.deepEqual(resolve("we may travel in June"), [
+            "2027-06-01",
+            "2027-06-30",
+        ]);
+        assert.equal(resolve("may I bring my kids?"), undefined);
+    });
+
+    it("returns undefined without a date", () => {
+        assert.equal(resolve("cheap tours in Luxor"), undefined);
+    });
+});
+
+describe("checkDateRange", () => {
+    it("accepts an upcoming range", () => {
+        assert.equal(
+            checkDateRange(
+                { from_date: "2026-11-01", to_date: "2026-11-03" },
+                { today }
+            ),
+            undefined
+        );
+    });
+
+    it("explains what is wrong with a range", () => {
+        assert.match(
+            checkDateRange({ from_date: "2026-11-31" }, { today })!,
+            /YYYY-MM-DD/
+        );
+        assert.match(
+            checkDateRange(
+                { from_date: "2026-11-03", to_date: "2026-11-01" },
+                { today }
+            )!,
+            /is after/
+        );
+        assert.match(
+            checkDateRange({ to_date: "2026-10-01" }, { today })!,
+            /in the past/
+        );
+    });
+});
@@ -0,0 +1,406 @@
+/**
+ * Turns the ways people say "when" into ISO date ranges: "next weekend",
+ * "mid-March", "during Eid", "5-8 April", "بكرة". Everything is computed
+ * from `today` in the user's timezone, never the server's clock.
+ */
+
+export interface DateContext {
+    // YYYY-MM-DD in `timeZone`.
+    today: string;
+    timeZone: string;
+}
+
+export interface DateRange {
+    from: string;
+    to: string;
+    // Human-readable range to echo back, e.g. "Fri 23 Oct – Sun 25 Oct 2026".
+    description: string;
+}
+
+export const DEFAULT_TIMEZONE = "Africa/Cairo";
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+export function isValidTimeZone(value: unknown): value is string {
+    if (typeof value !== "string" || !value) return false;
+    try {
+        new Intl.DateTimeFormat("en-US", { timeZone: value });
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+export function dateContext(
+    timeZone?: string,
+    now = new Date(),
+    env = process.env
+): DateContext {
+    const zone = isValidTimeZone(timeZone)
+        ? timeZone
+        : (env.DEFAULT_TIMEZONE ?? DEFAULT_TIMEZONE);
+    // en-CA formats as YYYY-MM-DD.
+    const today = new Intl.DateTimeFormat("en-CA", {
+        timeZone: zone,
+        year: "numeric",
+        month: "2-digit",
+        day: "2-digit",
+    }).format(now);
+    return { today, timeZone: zone };
+}
+
+// Calendar dates are handled as UTC midnights so DST never shifts a day.
+function parseDate(iso: string) {
+    return new Date(`${iso}T00:00:00Z`);
+}
+
+function isoDate(date: Date) {
+    return date.toISOString().slice(0, 10);
+}
+
+function addDays(iso: string, days: number) {
+    const date = parseDate(iso);
+    date.setUTCDate(date.getUTCDate() + days);
+    return isoDate(date);
+}
+
+// 0 = Monday ... 6 = Sunday.
+function weekday(iso: string) {
+    return (parseDate(iso).getUTCDay() + 6) % 7;
+}
+
+function daysInMonth(year: number, month: number) {
+    return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+function ymd(year: number, month: number, day: number) {
+    return isoDate(new Date(Date.UTC(year, month - 1, day)));
+}
+
+export function isValidIsoDate(value: string) {
+    if (!ISO_DATE.test(value)) return false;
+    const date = parseDate(value);
+    return !Number.isNaN(date.getTime()) && isoDate(date) === value;
+}
+
+export function describeDateRange(from: string, to: string) {
+    const format = (iso: string, withYear: boolean) =>
+        new Intl.DateTimeFormat("en-GB", {
+            timeZone: "UTC",
+            weekday: "short",
+            day: "numeric",
+            month: "short",
+            ...(withYear && { year: "numeric" }),
+        })
+            .format(parseDate(iso))
+            .replace(",", "");
+    if (from === to) return format(from, true);
+    const sameYear = from.slice(0, 4) === to.slice(0, 4);
+    return `${format(from, !sameYear)} – ${format(to, true)}`;
+}
+
+function range(from: string, to: string): DateRange {
+    return { from, to, description: describeDateRange(from, to) };
+}
+
+const MONTHS: [RegExp, number][] = [
+    [/\b(jan(uary)?)\b|يناير|كانون الثاني/, 1],
+    [/\b(feb(ruary)?)\b|فبراير|شباط/, 2],
+    [/\b(mar(ch)?)\b|مارس|آذار/, 3],
+    [/\b(apr(il)?)\b|[أا]بريل|نيسان/, 4],
+    // "May" is also a verb ("may I book…", "we may travel in June"), so it
+    // only counts next to a day or year, or after "in", "early" and the like.
+    [
+        /\b(in|during|early|mid|late|of)[\s-]+may\b|\bmay\s+\d|\d(st|nd|rd|th)?\s+may\b|مايو|أيار/,
+        5,
+    ],
+    [/\b(june?)\b|يونيو|حزيران/, 6],
+    [/\b(july?)\b|يوليو|تموز/, 7],
+    [/\b(aug(ust)?)\b|[أا]غسطس|آب/, 8],
+    [/\b(sep(t(ember)?)?)\b|سبتمبر|أيلول/, 9],
+    [/\b(oct(ober)?)\b|[أا]كتوبر|تشرين الأول/, 10],
+    [/\b(nov(ember)?)\b|نوفمبر|تشرين الثاني/, 11],
+    [/\b(dec(ember)?)\b|ديسمبر|كانون الأول/, 12],
+];
+
+const WEEKDAYS: [RegExp, number][] = [
+    [/\b(mon(day)?)\b|الاثنين|الإثنين/, 0],
+    [/\b(tue(s(day)?)?)\b|الثلاثاء/, 1],
+    [/\b(wed(nesday)?)\b|الأربعاء|الاربعاء/, 2],
+    [/\b(thu(rs(day)?)?)\b|الخميس/, 3],
+    [/\b(fri(day)?)\b|الجمعة/, 4],
+    [/\b(sat(urday)?)\b|السبت/, 5],
+    [/\b(sun(day)?)\b|الأحد|الاحد/, 6],
+];
+
+// Islamic holidays follow the lunar calendar and moon sighting, so these are
+// the expected dates; the assistant echoes the range back for confirmation.
+interface Holiday {
+    pattern: RegExp;
+    name: string;
+    ranges: [string, string][];
+}
+
+const HOLIDAYS: Holiday[] = [
+    {
+        pattern: /\beid al[- ]?fitr\b|\bsmall eid\b|عيد الفطر/,
+        name: "Eid al-Fitr",
+        ranges: [
+            ["2026-03-20", "2026-03-22"],
+            ["2027-03-10", "2027-03-12"],
+            ["2028-02-27", "2028-02-29"],
+        ],
+    },
+    {
+        pattern: /\beid al[- ]?adha\b|\bbig eid\b|عيد الأضحى|عيد الاضحى/,
+        name: "Eid al-Adha",
+        ranges: [
+            ["2026-05-27", "2026-05-30"],
+            ["2027-05-16", "2027-05-19"],
+            ["2028-05-05", "2028-05-08"],
+        ],
+    },
+    {
+        pattern: /\bramadan\b|رمضان/,
+        name: "Ramadan",
+        ranges: [
+            ["2026-02-18", "2026-03-19"],
+            ["2027-02-08", "2027-03-09"],
+            ["2028-01-28", "2028-02-26"],
+        ],
+    },
+    {
+        pattern: /\bsham el[- ]?ness?im\b|شم النسيم/,
+        name: "Sham el-Nessim",
+        ranges: [
+            ["2026-04-13", "2026-04-13"],
+            ["2027-05-03", "2027-05-03"],
+            ["2028-04-17", "2028-04-17"],
+        ],
+    },
+];
+
+// Plain "Eid" is whichever Eid comes next.
+const ANY_EID = /\beid\b|العيد|عيد/;
+
+function nextHoliday(
+    ranges: [string, string][],
+    today: string,
+    name: (from: string) => string
+) {
+    const upcoming = ranges.find(([, to]) => to >= today);
+    if (!upcoming) return undefined;
+    const resolved = range(
+        upcoming[0] < today ? today : upcoming[0],
+        upcoming[1]
+    );
+    return {
+        ...resolved,
+        description: `${name(upcoming[0])}: ${resolved.description}`,
+    };
+}
+
+function holiday(text: string, today: string) {
+    for (const { pattern, name, ranges } of HOLIDAYS) {
+        if (pattern.test(text)) return nextHoliday(ranges, today, () => name);
+    }
+    if (ANY_EID.test(text)) {
+        const eids = HOLIDAYS.slice(0, 2);
+        return nextHoliday(
+            eids
+                .flatMap(({ ranges }) => ranges)
+                .sort(([a], [b]) => a.localeCompare(b)),
+            today,
+            (from) =>
+                eids.find(({ ranges }) => ranges.some(([f]) => f === from))!
+                    .name
+        );
+    }
+    return undefined;
+}
+
+function westernDigits(text: string) {
+    return text.replace(/[٠-٩]/g, (d) => String(d.charCodeAt(0) - 0x0660));
+}
+
+function findMonth(text: string) {
+    return MONTHS.find(([pattern]) => pattern.test(text))?.[1];
+}
+
+/**
+ * A month with an optional part ("early", "mid", "late") or day range.
+ * Without a year it means the next time that month comes round.
+ */
+function monthExpression(text: string, today: string) {
+    const month = findMonth(text);
+    if (!month) return undefined;
+
+    const yearMatch = text.match(/\b(20\d{2})\b/);
+    const thisYear = Number(today.slice(0, 4));
+    const lastDayThisYear = ymd(thisYear, month, daysInMonth(thisYear, month));
+    const year = yearMatch
+        ? Number(yearMatch[1])
+        : lastDayThisYear < today
+          ? thisYear + 1
+          : thisYear;
+    const lastDay = daysInMonth(year, month);
+
+    const withoutYear = text.replace(/\b20\d{2}\b/, "");
+    const days = [...withoutYear.matchAll(/\b(\d{1,2})(?:st|nd|rd|th)?\b/g)]
+        .map((m) => Number(m[1]))
+        .filter((d) => d >= 1 && d <= lastDay);
+
+    let from = 1;
+    let to = lastDay;
+    if (days.length >= 2) {
+        from = Math.min(days[0], days[1]);
+        to = Math.max(days[0], days[1]);
+    } else if (days.length === 1) {
+        from = to = days[0];
+    } else if (/\bearly\b|أوائل|اوائل|بداية/.test(text)) {
+        to = 10;
+    } else if (/\bmid\b|منتصف|نص/.test(text)) {
+        from = 11;
+        to = 20;
+    } else if (/\blate\b|\bend of\b|أواخر|اواخر|نهاية|آخر/.test(text)) {
+        from = 21;
+    }
+
+    const start = ymd(year, month, from);
+    const end = ymd(year, month, to);
+    // "this March" while in March: keep what is left of it.
+    return range(start < today && end >= today ? today : start, end);
+}
+
+function weekend(today: string, next: boolean) {
+    // Friday to Sunday covers both the Egyptian (Fri-Sat) and the
+    // international (Sat-Sun) weekend.
+    const day = weekday(today);
+    let friday = addDays(today, 4 - day);
+    // "Next weekend" said during a weekend means the following one.
+    if (next && day >= 4) friday = addDays(friday, 7);
+    const from = friday < today ? today : friday;
+    return range(from, addDays(friday, 2));
+}
+
+/**
+ * Resolves a date expression relative to `today`. Returns undefined when the
+ * text has no date the parser understands.
+ */
+export function resolveDateExpression(
+    input: string,
+    { today }: Pick<DateContext, "today">
+): DateRange | undefined {
+    const text = westernDigits(input.toLowerCase().trim());
+
+    const isoDates = text.match(/\d{4}-\d{2}-\d{2}/g)?.filter(isValidIsoDate);
+    if (isoDates?.length) {
+        const sorted = [...isoDates].sort();
+        return range(sorted[0], sorted[sorted.length - 1]);
+    }
+
+    if (/\bday after tomorrow\b|بعد بكر[ةه]|بعد غد/.test(text)) {
+        const day = addDays(today, 2);
+        return range(day, day);
+    }
+    if (/\btomorrow\b|بكر[ةه]|غدا|غدًا/.test(text)) {
+        const day = addDays(today, 1);
+        return range(day, day);
+    }
+    if (/\b(today|tonight)\b|النهارد[هة]|اليوم|الليلة/.test(text)) {
+        return range(today, today);
+    }
+
+    if (/\bchristmas\b|الكريسماس|عيد الميلاد/.test(text)) {
+        return monthExpression("december 24 26", today);
+    }
+    const holidayRange = holiday(text, today);
+    if (holidayRange) return holidayRange;
+
+    if (/\bnew year'?s?\b|رأس السنة|راس السنة/.test(text)) {
+        const year = Number(today.slice(0, 4));
+        const eve = ymd(year, 12, 31) >= today ? year : year + 1;
+        return range(ymd(eve, 12, 31), ymd(eve + 1, 1, 1));
+    }
+
+    const isNext = /\bnext\b|\bcoming\b|القادم|الجاي|الجاية|القادمة/.test(text);
+
+    const weekendWords =
+        /\bweekend\b|الويكند|الويك اند|نهاية الأسبوع|نهاية الاسبوع|إجازة الأسبوع/;
+    if (weekendWords.test(text)) {
+        return weekend(today, isNext);
+    }
+
+    const span = text.match(
+        /\b(?:next|coming|within(?: the next)?)\s+(\d+)\s+(day|week)s?\b/
+    );
+    if (span) {
+        const days = Number(span[1]) * (span[2] === "week" ? 7 : 1);
+        return range(today, addDays(today, Math.max(days - 1, 0)));
+    }
+    const inSpan = text.match(/\bin\s+(\d+)\s+(day|week)s?\b/);
+    if (inSpan) {
+        const weeks = inSpan[2] === "week";
+        const start = addDays(today, Number(inSpan[1]) * (weeks ? 7 : 1));
+        return range(start, weeks ? addDays(start, 6) : start);
+    }
+
+    const monthRange = monthExpression(text, today);
+    if (monthRange) return monthRange;
+
+    if (/\bweek\b|الأسبوع|الاسبوع/.test(text)) {
+        const monday = addDays(today, -weekday(today));
+        return isNext
+            ? range(addDays(monday, 7), addDays(monday, 13))
+            : range(today, addDays(monday, 6));
+    }
+
+    if (/\bmonth\b|الشهر/.test(text)) {
+        const year = Number(today.slice(0, 4));
+        const month = Number(today.slice(5, 7));
+        if (!isNext) {
+            return range(today, ymd(year, month, daysInMonth(year, month)));
+        }
+        const nextYear = month === 12 ? year + 1 : year;
+        const nextMonth = month === 12 ? 1 : month + 1;
+        return range(
+            ymd(nextYear, nextMonth, 1),
+            ymd(nextYear, nextMonth, daysInMonth(nextYear, nextMonth))
+        );
+    }
+
+    const day = WEEKDAYS.find(([pattern]) => pattern.test(text))?.[1];
+    if (day !== undefined) {
+        const ahead = (day - weekday(today) + 7) % 7 || 7;
+        const date = addDays(today, isNext && ahead < 7 ? ahead + 7 : ahead);
+        return range(date, date);
+    }
+
+    return undefined;
+}
+
+/**
+ * Checks an explicit range: valid ISO dates, from <= to and nothing in the
+ * past. Returns a message the model can relay, or undefined when fine.
+ */
+export function checkDateRange(
+    { from_date, to_date }: { from_date?: string; to_date?: string },
+    { today }: Pick<DateContext, "today">
+) {
+    for (const [name, value] of [
+        ["from_date", from_date],
+        ["to_date", to_date],
+    ] as const) {
+        if (value !== undefined && !isValidIsoDate(value)) {
+            return `${name} must be a date in YYYY-MM-DD format, got "${value}"`;
+        }
+    }
+    if (from_date && to_date && from_date > to_date) {
+        return `from_date ${from_date} is after to_date ${to_date}`;
+    }
+    const past = [from_date, to_date].find((date) => date && date < today);
+    if (past) {
+        return `${past} is in the past; today is ${today}. Ask the user for upcoming dates.`;
+    }
+    return undefined;
+}
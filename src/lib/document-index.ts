@@ -0,0 +1,236 @@
+export interface DocumentSection {
+    id: string;
+    title: string;
+    content: string;
+}
+
+export interface SectionMatch extends DocumentSection {
+    score: number;
+}
+
+const STOP_WORDS = new Set([
+    "a", "an", "and", "are", "as", "at", "be", "by", "can", "do", "does",
+    "for", "from", "how", "i", "if", "in", "is", "it", "my", "of", "on",
+    "or", "the", "this", "to", "what", "when", "where", "which", "who",
+    "why", "will", "with", "you", "your",
+]);
+
+// Cheap plural folding so "refund" matches "refunds" without a stemmer.
+function normalizeToken(token: string) {
+    return token.length > 3 && token.endsWith("s") && !token.endsWith("ss")
+        ? token.slice(0, -1)
+        : token;
+}
+
+export function tokenize(text: string) {
+    return (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [])
+        .filter((token) => !STOP_WORDS.has(token))
+        .map(normalizeToken);
+}
+
+function decodeEntities(text: string) {
+    return text
+        .replace(/&nbsp;/g, " ")
+        .replace(/&amp;/g, "&")
+        .replace(/&quot;/g, '"')
+        .replace(/&#39;|&apos;/g, "'")
+        .replace(/&lt;/g, "<")
+        .replace(/&gt;/g, ">");
+}
+
+/**
+ * Turns an HTML fragment into plain text, keeping links clickable as
+ * Markdown so the model can pass them on unchanged.
+ */
+export function htmlToText(html: string) {
+    return decodeEntities(
+        html
+            .replace(
+                /<a\s[^>]*href=["']([^"']+)["'][^>]*>([\s\S]*?)<\/a>/gi,
+                (_, href: string, label: string) =>
+                    `[${label.replace(/<[^>]+>/g, "").trim()}](${href})`
+            )
+            .replace(/<br\s*\/?>/gi, "\n")
+            .replace(/<\/(p|div|li|h[1-6])>/gi, "\n")
+            .replace(/<li[^>]*>/gi, "- ")
+            .replace(/<[^>]+>/g, "")
+    )
+        .replace(/[ \t]+/g, " ")
+        .replace(/\n\s*\n+/g, "\n")
+        .trim();
+}
+
+function splitHtmlSections(html: string) {
+    const sections: { title: string; content: string }[] = [];
+    const parts = html.split(/(<h[1-6][^>]*>[\s\S]*?<\/h[1-6]>)/i);
+    let title = "";
+    for (const part of parts) {
+        if (/^<h[1-6]/i.test(part)) {
+            title = htmlToText(part);
+            continue;
+        }
+        const content = htmlToText(part);
+        if (content) {
+            sections.push({ title, content });
+        }
+    }
+    return sections;
+}
+
+const TITLE_KEYS = ["title", "question", "name", "heading"];
+const CONTENT_KEYS = ["content", "answer", "description", "body", "text"];
+
+function pickString(record: Record<string, unknown>, keys: string[]) {
+    for (const key of keys) {
+        if (typeof record[key] === "string") {
+            return record[key] as string;
+        }
+    }
+    return undefined;
+}
+
+function collectSections(
+    value: unknown,
+    parentTitle: string,
+    out: { title: string; content: string }[]
+) {
+    if (typeof value === "string") {
+        for (const section of splitHtmlSections(value)) {
+            out.push({
+                title: section.title || parentTitle,
+                content: section.content,
+            });
+        }
+        return;
+    }
+    if (Array.isArray(value)) {
+        value.forEach((item) => collectSections(item, parentTitle, out));
+        return;
+    }
+    if (value && typeof value === "object") {
+        const record = value as Record<string, unknown>;
+        const title = pickString(record, TITLE_KEYS);
+        const content = pickString(record, CONTENT_KEYS);
+        if (content) {
+            out.push({
+                title: htmlToText(title ?? parentTitle),
+                content: htmlToText(content),
+            });
+        }
+        for (const [key, child] of Object.entries(record)) {
+            if (
+                !TITLE_KEYS.includes(key) &&
+                !CONTENT_KEYS.includes(key) &&
+                typeof child === "object"
+            ) {
+                collectSections(child, title ?? parentTitle, out);
+            }
+        }
+    }
+}
+
+/**
+ * Splits `page_contents` into addressable sections. The backend returns
+ * either an HTML string or a list of title/content records, so both are
+ * handled. Section IDs are stable for a given document (`faq-3`).
+ */
+export function chunkPageContents(
+    pageContents: unknown,
+    idPrefix: string
+): DocumentSection[] {
+    const raw: { title: string; content: string }[] = [];
+    collectSections(pageContents, "", raw);
+    return raw.map((section, index) => ({
+        id: `${idPrefix}-${index + 1}`,
+        title: section.title,
+        content: section.content,
+    }));
+}
+
+const K1 = 1.2;
+const B = 0.75;
+
+export class DocumentIndex {
+    private readonly termFrequencies: Map<string, number>[];
+    private readonly documentFrequency = new Map<string, number>();
+    private readonly lengths: number[];
+    private readonly averageLength: number;
+
+    constructor(readonly sections: DocumentSection[]) {
+        this.termFrequencies = sections.map((section) => {
+            const frequencies = new Map<string, number>();
+            // Titles are short and usually the best signal, so count them twice.
+            const tokens = [
+                ...tokenize(section.title),
+                ...tokenize(section.title),
+                ...tokenize(section.content),
+            ];
+            for (const token of tokens) {
+                frequencies.set(token, (frequencies.get(token) ?? 0) + 1);
+            }
+            for (const token of frequencies.keys()) {
+                this.documentFrequency.set(
+                    token,
+                    (this.documentFrequency.get(token) ?? 0) + 1
+                );
+            }
+            return frequencies;
+        });
+        this.lengths = this.termFrequencies.map((frequencies) =>
+            [...frequencies.values()].reduce((sum, n) => sum + n, 0)
+        );
+        this.averageLength =
+            this.lengths.reduce((sum, n) => sum + n, 0) /
+            Math.max(this.lengths.length, 1);
+    }
+
+    search(query: string, limit = 3): SectionMatch[] {
+        const terms = [...new Set(tokenize(query))];
+        const total = this.sections.length;
+
+        return this.sections
+            .map((section, index) => {
+                const frequencies = this.termFrequencies[index];
+                let score = 0;
+                for (const term of terms) {
+                    const tf = frequencies.get(term);
+                    if (!tf) continue;
+                    const df = this.documentFrequency.get(term) ?? 0;
+                    const idf = Math.log(1 + (total - df + 0.5) / (df + 0.5));
+                    score +=
+                        (idf * tf * (K1 + 1)) /
+                        (tf +
+                            K1 *
+                                (1 -
+                                    B +
+                                    (B * this.lengths[index]) /
+                                        this.averageLength));
+                }
+                return { ...section, score };
+            })
+            .filter((match) => match.score > 0)
+            .sort((a, b) => b.score - a.score)
+            .slice(0, limit);
+    }
+
+    get(id: string) {
+        return this.sections.find((section) => section.id === id);
+    }
+}
+
+/**
+ * Caches the index for the most recent document so it is rebuilt only when
+ * the underlying reference data is refreshed.
+ */
+export function createIndexCache(idPrefix: string) {
+    let source: unknown;
+    let index: DocumentIndex | undefined;
+
+    return (pageContents: unknown) => {
+        if (!index || source !== pageContents) {
+            source = pageContents;
+            index = new DocumentIndex(chunkPageContents(pageContents, idPrefix));
+        }
+        return index;
+    };
+}
@@ -0,0 +1,98 @@
+import { isLocale, type Locale } from "@/lib/i18n";
+import type { PageContextInput } from "@/lib/page-context";
+
+/**
+ * Messages between `public/widget.js` on the host page and the `/embed`
+ * iframe. Host pages never see these; the widget turns them into
+ * `ithaka:*` DOM events and its `window.IthakaChat` API.
+ */
+export type WidgetToEmbedMessage = { type: "ithaka:send"; text: string };
+
+export type EmbedToWidgetMessage =
+    | { type: "ithaka:ready" }
+    | { type: "ithaka:close" }
+    | {
+          type: "ithaka:message";
+          message: { id: string; role: string; content: string };
+      };
+
+export function isWidgetMessage(data: unknown): data is WidgetToEmbedMessage {
+    const message = data as WidgetToEmbedMessage | null;
+    return message?.type === "ithaka:send" && typeof message.text === "string";
+}
+
+/** The widget's options, as passed to `/embed` in the query string. */
+export interface EmbedConfig {
+    // Origin of the page the widget is on, as the widget reports it. Events
+    // are only posted to this origin, so a page that lies about it gets none.
+    hostOrigin?: string;
+    // Whether the host may receive the conversation (`ithaka:message`):
+    // only sites listed in `EMBED_ALLOWED_ORIGINS` do.
+    shareMessages: boolean;
+    locale?: Locale;
+    greeting?: string;
+    context: PageContextInput;
+    theme?: { primary?: string; accent?: string };
+}
+
+// Hex, rgb()/hsl() and named colors; anything else could break out of the
+// style it is placed in.
+const COLOR_PATTERN =
+    /^(#[0-9a-f]{3,8}|(rgb|hsl)a?\([\d\s.,%/]+\)|[a-z]{3,20})$/i;
+
+const MAX_GREETING_LENGTH = 500;
+
+type SearchParams = Record<string, string | string[] | undefined>;
+
+function param(params: SearchParams, key: string) {
+    const value = params[key];
+    const text = (Array.isArray(value) ? value[0] : value)?.trim();
+    return text || undefined;
+}
+
+function color(params: SearchParams, key: string) {
+    const value = param(params, key);
+    return value && COLOR_PATTERN.test(value) ? value : undefined;
+}
+
+/** `EMBED_ALLOWED_ORIGINS`: the sites allowed to embed the widget. */
+export function embedAllowedOrigins(env = process.env) {
+    return (env.EMBED_ALLOWED_ORIGINS ?? "")
+        .split(",")
+        .map((origin) => origin.trim())
+        .filter(Boolean);
+}
+
+function origin(params: SearchParams, key: string) {
+    const value = param(params, key);
+    if (!value) return undefined;
+    try {
+        const { origin } = new URL(value);
+        return origin === value ? origin : undefined;
+    } catch {
+        return undefined;
+    }
+}
+
+/** Reads the widget's options, dropping any that are malformed. */
+export function parseEmbedConfig(
+    params: SearchParams,
+    allowedOrigins = embedAllowedOrigins()
+): EmbedConfig {
+    const locale = param(params, "locale");
+    const primary = color(params, "primary");
+    const accent = color(params, "accent");
+    const hostOrigin = origin(params, "host");
+    return {
+        hostOrigin,
+        shareMessages:
+            hostOrigin !== undefined && allowedOrigins.includes(hostOrigin),
+        locale: isLocale(locale) ? locale : undefined,
+        greeting: param(params, "greeting")?.slice(0, MAX_GREETING_LENGTH),
+        context: {
+            destination: param(params, "destination"),
+            category: param(params, "category"),
+        },
+        theme: primary || accent ? { primary, accent } : undefined,
+    };
+}
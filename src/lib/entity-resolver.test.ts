@@ -0,0 +1,67 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+    EntityResolver,
+    normalizeName,
+    transliterateArabic,
+} from "@/lib/entity-resolver";
+import type { Category, Destination } from "@/lib/ithaka/schemas";
+
+const destinations: Destination[] = [
+    { id: 1, name: "Cairo", name_ar: "القاهرة", slug: "cairo" },
+    { id: 2, name: "Alexandria", slug: "alexandria" },
+    { id: 3, name: "Hurghada", slug: "hurghada" },
+    { id: 4, name: "Luxor", slug: "luxor" },
+];
+
+const categories: Category[] = [
+    { id: 10, name: "Adventure", parent_id: null },
+    { id: 11, name: "Food & Drink", parent_id: null },
+];
+
+const resolver = new EntityResolver(destinations, categories);
+
+function best(resolution: { candidates: { id: number }[] }) {
+    return resolution.candidates[0]?.id;
+}
+
+describe("normalizeName", () => {
+    it("drops accents, punctuation and the article", () => {
+        assert.equal(normalizeName("Él-Gouna!"), "gouna");
+        assert.equal(normalizeName("Food & Drink"), "food and drink");
+        assert.equal(normalizeName("الإسكندرية"), "اسكندريه");
+    });
+});
+
+describe("transliterateArabic", () => {
+    it("romanizes Arabic letters without the article", () => {
+        assert.equal(transliterateArabic("الغردقة"), "ghrdqa");
+    });
+});
+
+describe("EntityResolver", () => {
+    it("matches names and aliases exactly", () => {
+        const cairo = resolver.resolveDestination("Cairo");
+        assert.equal(best(cairo), 1);
+        assert.equal(cairo.candidates[0].confidence, 1);
+        assert.equal(best(resolver.resolveDestination("Alex")), 2);
+        assert.equal(best(resolver.resolveDestination("القاهرة")), 1);
+    });
+
+    it("still finds a destination with a typo, less confidently", () => {
+        const luxor = resolver.resolveDestination("Luxer");
+        assert.equal(best(luxor), 4);
+        assert.ok(luxor.candidates[0].confidence < 1);
+    });
+
+    it("finds a category inside a longer phrase", () => {
+        const adventure = resolver.resolveCategory("extreme adventure");
+        assert.equal(best(adventure), 10);
+        assert.equal(adventure.candidates[0].confidence, 0.9);
+        assert.equal(best(resolver.resolveCategory("food")), 11);
+    });
+
+    it("returns no candidates for unrelated text", () => {
+        assert.deepEqual(resolver.resolveDestination("zzzz").candidates, []);
+    });
+});
@@ -0,0 +1,316 @@
+import Fuse from "fuse.js";
+import { translatedNames } from "@/lib/i18n";
+import type { Category, Destination } from "@/lib/ithaka/schemas";
+
+export interface EntityCandidate {
+    id: number;
+    name: string;
+    // 0-1; 1 is an exact name or alias match.
+    confidence: number;
+    // The name or alias that matched.
+    matchedOn: string;
+    parentId?: number | null;
+}
+
+export interface TermResolution {
+    query: string;
+    candidates: EntityCandidate[];
+}
+
+// Alternative spellings, short forms and Arabic names, keyed by the
+// normalized English name the backend uses.
+const DESTINATION_ALIASES: Record<string, string[]> = {
+    cairo: [
+        "al qahira", "el qahera", "kairo", "le caire", "masr", "القاهرة",
+        "مصر",
+    ],
+    giza: ["gizeh", "geeza", "jiza", "pyramids", "الجيزة"],
+    alexandria: [
+        "alex", "iskandariya", "eskendereya", "alexandrie", "الإسكندرية",
+        "اسكندرية",
+    ],
+    luxor: ["louxor", "el uqsur", "al aqsur", "الأقصر"],
+    aswan: ["assuan", "assouan", "أسوان"],
+    dahab: ["دهب"],
+    hurghada: ["ghardaqa", "hurgada", "hurgahda", "الغردقة"],
+    "sharm el sheikh": ["sharm", "ssh", "sharm al shaykh", "شرم الشيخ", "شرم"],
+    siwa: ["siwa oasis", "siwah", "سيوة", "واحة سيوة"],
+    "marsa alam": ["مرسى علم"],
+    "el gouna": ["gouna", "الجونة"],
+    fayoum: ["faiyum", "fayum", "الفيوم"],
+    "port said": ["بورسعيد", "بور سعيد"],
+    nuweiba: ["nuweibaa", "نويبع"],
+    taba: ["طابا"],
+    "ain sokhna": ["sokhna", "el sokhna", "العين السخنة", "السخنة"],
+    "north coast": ["sahel", "el sahel", "الساحل الشمالي", "الساحل"],
+    "marsa matrouh": ["matrouh", "mersa matruh", "مرسى مطروح", "مطروح"],
+    sinai: ["سيناء"],
+};
+
+// Words people use for a kind of activity, keyed by a word that appears in
+// the backend's category name ("food" covers "Food & Drink").
+const CATEGORY_SYNONYMS: Record<string, string[]> = {
+    adventure: [
+        "extreme", "thrill", "adrenaline", "active", "hiking", "trekking",
+        "climbing", "مغامرة", "مغامرات",
+    ],
+    cultural: [
+        "culture", "history", "historical", "heritage", "museum", "temple",
+        "pharaonic", "ancient", "ثقافة", "ثقافي", "تاريخ", "تاريخي",
+    ],
+    food: [
+        "culinary", "cooking", "dining", "cuisine", "street food", "tasting",
+        "أكل", "طعام", "مطبخ",
+    ],
+    water: [
+        "diving", "scuba", "snorkeling", "snorkelling", "swimming",
+        "kitesurfing", "surfing", "sailing", "boat", "غوص", "رياضات مائية",
+    ],
+    relaxation: [
+        "relax", "spa", "wellness", "yoga", "massage", "chill", "beach",
+        "استرخاء",
+    ],
+    sightseeing: [
+        "city tour", "landmarks", "tour", "sights", "مشاهدة المعالم", "جولة",
+    ],
+    safari: [
+        "desert", "quad", "atv", "dune", "buggy", "camel", "sandboarding",
+        "bedouin", "سفاري", "صحراء",
+    ],
+};
+
+const ARABIC = /[؀-ۿ]/;
+const MIN_CONFIDENCE = 0.5;
+
+// Egyptian-leaning romanization, good enough to fuzzy-match Arabic input
+// against Latin names that have no Arabic alias.
+const ARABIC_TO_LATIN: Record<string, string> = {
+    ا: "a", أ: "a", إ: "i", آ: "a", ب: "b", ت: "t", ث: "th", ج: "g",
+    ح: "h", خ: "kh", د: "d", ذ: "z", ر: "r", ز: "z", س: "s", ش: "sh",
+    ص: "s", ض: "d", ط: "t", ظ: "z", ع: "a", غ: "gh", ف: "f", ق: "q",
+    ك: "k", ل: "l", م: "m", ن: "n", ه: "h", ة: "a", و: "o", ي: "y",
+    ى: "a", ء: "", ئ: "e", ؤ: "o",
+};
+
+export function normalizeArabic(text: string) {
+    return text
+        .replace(/[ً-ٰٟـ]/g, "") // diacritics, tatweel
+        .replace(/[أإآ]/g, "ا")
+        .replace(/ة/g, "ه")
+        .replace(/ى/g, "ي");
+}
+
+export function transliterateArabic(text: string) {
+    return [...text.replace(/(^|\s)ال/g, "$1")]
+        .map((char) => ARABIC_TO_LATIN[char] ?? char)
+        .join("");
+}
+
+/** Lowercase, accent-free, punctuation-free; Arabic letters are unified. */
+export function normalizeName(text: string) {
+    return normalizeArabic(text)
+        .normalize("NFKD")
+        .replace(/\p{M}/gu, "")
+        .toLowerCase()
+        .replace(/&/g, " and ")
+        .replace(/[^\p{L}\p{N}]+/gu, " ")
+        .replace(/(^| )ال(?=\p{L})/gu, "$1")
+        .replace(/^(al|el) /, "")
+        .trim();
+}
+
+interface Entry {
+    id: number;
+    name: string;
+    parentId?: number | null;
+    keys: string[];
+}
+
+function containsPhrase(text: string, phrase: string) {
+    return ` ${text} `.includes(` ${phrase} `);
+}
+
+function uniqueKeys(values: (string | null | undefined)[]) {
+    return [
+        ...new Set(
+            values.filter((v): v is string => !!v).map(normalizeName)
+        ),
+    ].filter(Boolean);
+}
+
+/**
+ * Maps free-text destination and category names ("Alex", "extreme
+ * adventure", "الغردقة") to backend IDs. Exact names and aliases score 1,
+ * prefixes and phrases inside a longer query a little less, and anything
+ * else goes through Fuse.js, so a typo still finds a candidate but with
+ * lower confidence.
+ */
+export class EntityResolver {
+    private readonly destinations: Entry[];
+    private readonly categories: Entry[];
+    private readonly destinationFuse: Fuse<Entry>;
+    private readonly categoryFuse: Fuse<Entry>;
+
+    constructor(destinations: Destination[], categories: Category[]) {
+        this.destinations = destinations.map((d) => {
+            const name = normalizeName(d.name);
+            return {
+                id: d.id,
+                name: d.name,
+                keys: uniqueKeys([
+                    ...translatedNames(d),
+                    d.slug?.replace(/-/g, " "),
+                    ...(DESTINATION_ALIASES[name] ?? []),
+                ]),
+            };
+        });
+        this.categories = categories.map((c) => {
+            const name = normalizeName(c.name);
+            const synonyms = Object.entries(CATEGORY_SYNONYMS)
+                .filter(([word]) => containsPhrase(name, word))
+                .flatMap(([, words]) => words);
+            return {
+                id: c.id,
+                name: c.name,
+                parentId: c.parent_id as number | null | undefined,
+                keys: uniqueKeys([
+                    ...translatedNames(c),
+                    c.slug?.replace(/-/g, " "),
+                    ...synonyms,
+                ]),
+            };
+        });
+
+        const options = {
+            keys: ["keys"],
+            includeScore: true,
+            ignoreLocation: true,
+            threshold: 0.4,
+        };
+        this.destinationFuse = new Fuse(this.destinations, options);
+        this.categoryFuse = new Fuse(this.categories, options);
+    }
+
+    resolveDestination(query: string, limit = 3) {
+        return this.resolve(
+            query,
+            this.destinations,
+            this.destinationFuse,
+            limit
+        );
+    }
+
+    resolveCategory(query: string, limit = 3) {
+        return this.resolve(query, this.categories, this.categoryFuse, limit);
+    }
+
+    private resolve(
+        query: string,
+        entries: Entry[],
+        fuse: Fuse<Entry>,
+        limit: number
+    ): TermResolution {
+        const scores = new Map<number, Omit<EntityCandidate, "id" | "name">>();
+        const consider = (entry: Entry, confidence: number, key: string) => {
+            const current = scores.get(entry.id);
+            if (!current || confidence > current.confidence) {
+                scores.set(entry.id, { confidence, matchedOn: key });
+            }
+        };
+        const best = () =>
+            Math.max(0, ...[...scores.values()].map((s) => s.confidence));
+
+        const match = (text: string, weight: number) => {
+            for (const entry of entries) {
+                for (const key of entry.keys) {
+                    if (text === key) {
+                        consider(entry, weight, key);
+                    } else if (
+                        containsPhrase(key, text) ||
+                        (key.length >= 3 && containsPhrase(text, key))
+                    ) {
+                        // "food" in "food and drink", "adventure" in
+                        // "extreme adventure".
+                        consider(entry, weight * 0.9, key);
+                    } else if (text.length >= 3 && key.startsWith(text)) {
+                        const coverage = text.length / key.length;
+                        consider(entry, weight * (0.75 + 0.2 * coverage), key);
+                    }
+                }
+            }
+            if (best() >= 0.75 * weight) return;
+
+            for (const { item, score = 1 } of fuse.search(text)) {
+                consider(item, weight * 0.8 * (1 - score), item.keys[0]);
+            }
+        };
+
+        const normalized = normalizeName(query);
+        if (normalized) match(normalized, 1);
+        // Arabic with no alias hit: try its romanization against Latin names.
+        if (ARABIC.test(normalized) && best() < 0.75) {
+            match(normalizeName(transliterateArabic(normalized)), 0.8);
+        }
+
+        const candidates = entries
+            .flatMap((entry) => {
+                const found = scores.get(entry.id);
+                if (!found || found.confidence < MIN_CONFIDENCE) return [];
+                return {
+                    id: entry.id,
+                    name: entry.name,
+                    confidence: Math.round(found.confidence * 100) / 100,
+                    matchedOn: found.matchedOn,
+                    ...(entry.parentId !== undefined && {
+                        parentId: entry.parentId,
+                    }),
+                };
+            })
+            .sort((a, b) => b.confidence - a.confidence)
+            .slice(0, limit);
+
+        return { query, candidates };
+    }
+}
+
+const resolvers = new WeakMap<object, WeakMap<object, EntityResolver>>();
+
+/** One resolver per pair of reference-data arrays, which are cached upstream. */
+export function getEntityResolver(
+    destinations: Destination[],
+    categories: Category[]
+) {
+    let byCategories = resolvers.get(destinations);
+    if (!byCategories) {
+        byCategories = new WeakMap();
+        resolvers.set(destinations, byCategories);
+    }
+    let resolver = byCategories.get(categories);
+    if (!resolver) {
+        resolver = new EntityResolver(destinations, categories);
+        byCategories.set(categories, resolver);
+    }
+    return resolver;
+}
+
+export function resolveEntities(
+    {
+        destinations = [],
+        categories = [],
+    }: { destinations?: string[]; categories?: string[] },
+    reference: { destinations: Destination[]; categories: Category[] },
+    limit?: number
+) {
+    const resolver = getEntityResolver(
+        reference.destinations,
+        reference.categories
+    );
+    return {
+        destinations: destinations.map((term) =>
+            resolver.resolveDestination(term, limit)
+        ),
+        categories: categories.map((term) =>
+            resolver.resolveCategory(term, limit)
+        ),
+    };
+}
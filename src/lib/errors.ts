@@ -0,0 +1,15 @@
+export function errorHandler(error: unknown) {
+    if (error == null) {
+        return "unknown error";
+    }
+
+    if (typeof error === "string") {
+        return error;
+    }
+
+    if (error instanceof Error) {
+        return error.message;
+    }
+
+    return JSON.stringify(error);
+}
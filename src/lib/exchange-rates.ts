@@ -0,0 +1,58 @@
+import { z } from "zod";
+import { DEFAULT_RATES, type ExchangeRates } from "@/lib/currency";
+import { createCachedResource } from "@/lib/reference-data";
+import { logger } from "@/lib/telemetry/logger";
+
+const MINUTE = 60 * 1000;
+
+const ratesSchema = z.object({
+    base: z.string(),
+    rates: z.record(z.number().positive()),
+    asOf: z.string().optional(),
+});
+
+/**
+ * `EXCHANGE_RATES` overrides individual rates of the built-in table
+ * (`{"EGP": 50.1}`, per US dollar); `EXCHANGE_RATES_URL` replaces the table
+ * with JSON in the same `{ base, rates }` shape, refreshed hourly.
+ */
+async function loadRates(env = process.env): Promise<ExchangeRates> {
+    if (env.EXCHANGE_RATES_URL) {
+        const res = await fetch(env.EXCHANGE_RATES_URL, {
+            headers: { Accept: "application/json" },
+        });
+        if (!res.ok) {
+            throw new Error(`Exchange rates responded ${res.status}`);
+        }
+        return ratesSchema.parse(await res.json());
+    }
+
+    if (env.EXCHANGE_RATES) {
+        const overrides = z
+            .record(z.number().positive())
+            .parse(JSON.parse(env.EXCHANGE_RATES));
+        return {
+            base: DEFAULT_RATES.base,
+            rates: { ...DEFAULT_RATES.rates, ...overrides },
+        };
+    }
+
+    return DEFAULT_RATES;
+}
+
+export const exchangeRatesResource = createCachedResource({
+    name: "exchange rates",
+    load: () => loadRates(),
+    ttlMs: 60 * MINUTE,
+    staleWhileRevalidateMs: 24 * 60 * MINUTE,
+});
+
+/** Never fails: falls back to the built-in table. */
+export async function getExchangeRates() {
+    try {
+        return await exchangeRatesResource.get();
+    } catch (error) {
+        logger.error("Exchange rates unavailable, using defaults", { error });
+        return DEFAULT_RATES;
+    }
+}
@@ -0,0 +1,100 @@
+import assert from "node:assert/strict";
+import { afterEach, describe, it } from "node:test";
+import type { Message } from "ai";
+import { findPrices, groundingSources, verifyAnswer } from "@/lib/grounding";
+import { formatPrice } from "@/lib/listings";
+
+const balloon = {
+    id: 1,
+    title: "Sunrise Hot Air Balloon Ride",
+    price: 120,
+    currency: "USD",
+    url: "https://ithaka.world/activities/balloon",
+};
+
+function sources(listing: Record<string, unknown>, messages: Message[] = []) {
+    return groundingSources(messages, [{ listings: [listing] }]);
+}
+
+describe("findPrices", () => {
+    it("reads amounts with the currency before or after", () => {
+        assert.deepEqual(
+            findPrices("$25 or 1,200 EGP").map(({ amount, currency }) => [
+                amount,
+                currency,
+            ]),
+            [
+                [25, "USD"],
+                [1200, "EGP"],
+            ]
+        );
+    });
+});
+
+describe("verifyAnswer", () => {
+    const previous = process.env.ITHAKA_CURRENCY;
+    afterEach(() => {
+        if (previous === undefined) delete process.env.ITHAKA_CURRENCY;
+        else process.env.ITHAKA_CURRENCY = previous;
+    });
+
+    it("accepts a listing's own price", () => {
+        const answer = "- **Sunrise Hot Air Balloon Ride**: $120 per person";
+        assert.equal(verifyAnswer(answer, sources(balloon)), undefined);
+    });
+
+    it("corrects a wrong price in the listing's currency", () => {
+        const answer = "- **Sunrise Hot Air Balloon Ride**: $95 per person";
+        assert.deepEqual(verifyAnswer(answer, sources(balloon)), {
+            type: "grounding",
+            issues: [{ kind: "price", found: "$95", expected: "$120.00" }],
+            correctedText:
+                "- **Sunrise Hot Air Balloon Ride**: $120.00 per person",
+        });
+    });
+
+    it("reports a wrong price in another currency without correcting", () => {
+        const answer = "- **Sunrise Hot Air Balloon Ride**: 900 EGP";
+        const result = verifyAnswer(answer, sources(balloon));
+        assert.deepEqual(result?.issues, [
+            { kind: "price", found: "900 EGP", expected: undefined },
+        ]);
+        assert.equal(result?.correctedText, undefined);
+    });
+
+    it("prices unlabelled listings in the backend currency", () => {
+        process.env.ITHAKA_CURRENCY = "EGP";
+        const unlabelled = { ...balloon, price: 5800, currency: undefined };
+        const answer = "- **Sunrise Hot Air Balloon Ride**: 5,000 EGP";
+        assert.equal(
+            verifyAnswer(answer, sources(unlabelled))?.correctedText,
+            `- **Sunrise Hot Air Balloon Ride**: ${formatPrice(5800, "EGP")}`
+        );
+    });
+
+    it("flags listings and links the tools never returned", () => {
+        const answer = [
+            "- **Midnight Desert Camel Trek**: $40",
+            "- [Book](https://ithaka.world/activities/camel-trek)",
+        ].join("\n");
+        assert.deepEqual(verifyAnswer(answer, sources(balloon))?.issues, [
+            { kind: "listing", found: "Midnight Desert Camel Trek" },
+            { kind: "price", found: "$40" },
+            {
+                kind: "url",
+                found: "https://ithaka.world/activities/camel-trek",
+            },
+        ]);
+    });
+
+    it("accepts a budget the user gave", () => {
+        const messages: Message[] = [
+            { id: "1", role: "user", content: "tours under $50" },
+        ];
+        const answer = "Here are some tours under $50.";
+        assert.equal(
+            verifyAnswer(answer, sources(balloon, messages)),
+            undefined
+        );
+    });
+});
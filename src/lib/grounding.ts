@@ -0,0 +1,371 @@
+import type { Message } from "ai";
+import { backendCurrency } from "@/lib/currency";
+import {
+    extractRawListings,
+    formatPrice,
+    normalizeListing,
+} from "@/lib/listings";
+
+// Type aliases rather than interfaces, so they qualify as annotation JSON.
+export type GroundingIssue = {
+    kind: "price" | "listing" | "url";
+    // The text as the model wrote it.
+    found: string;
+    // What the listing data says, when the answer was corrected to it.
+    expected?: string;
+};
+
+/**
+ * Sent to the page as a message annotation and saved with the message.
+ * Only attached when something in the answer could not be verified.
+ */
+export type GroundingAnnotation = {
+    type: "grounding";
+    issues: GroundingIssue[];
+    // The answer with mismatched listing prices replaced, if any were.
+    correctedText?: string;
+};
+
+export function isGroundingAnnotation(
+    value: unknown
+): value is GroundingAnnotation {
+    return (
+        typeof value === "object" &&
+        value !== null &&
+        (value as { type?: unknown }).type === "grounding"
+    );
+}
+
+interface Price {
+    amount: number;
+    currency: string;
+}
+
+interface KnownListing {
+    titles: string[];
+    url: string;
+    prices: Price[];
+    // Every price-like amount on the record: discounts, conversions, ranges.
+    amounts: Set<number>;
+}
+
+export interface GroundingSources {
+    listings: KnownListing[];
+    // The price amounts in the tool results and the user's messages; prices
+    // not tied to a listing only need to appear somewhere in here.
+    amounts: Set<number>;
+}
+
+// Amounts written with a currency: "$25", "25 USD", "EGP 1,200", "500 جنيه".
+const PRICE_PATTERN =
+    /([$€£]|E£\s?|\b(?:USD|EGP|EUR|GBP|SAR|AED)\s?)(\d{1,3}(?:,\d{3})+(?:\.\d+)?|\d+(?:\.\d+)?)|(\d{1,3}(?:,\d{3})+(?:\.\d+)?|\d+(?:\.\d+)?)\s?(USD|EGP|EUR|GBP|SAR|AED|dollars?|pounds?|euros?|جنيه|دولار)/gi;
+
+const PRICE_FIELD_PATTERN = /price|amount|discount|budget/i;
+const NUMBER_PATTERN = /\d{1,3}(?:,\d{3})+(?:\.\d+)?|\d+(?:\.\d+)?/g;
+const URL_PATTERN = /https?:\/\/[^\s)\]>"'`]+/g;
+const BOLD_PATTERN = /\*\*([^*]+)\*\*/g;
+const LIST_ITEM_PATTERN = /^\s*([-*•]|\d+[.)])\s/;
+
+// In an Egyptian travel assistant, plain "pounds" means Egyptian pounds.
+const CURRENCY_WORDS: Record<string, string> = {
+    $: "USD",
+    dollar: "USD",
+    dollars: "USD",
+    دولار: "USD",
+    "€": "EUR",
+    euro: "EUR",
+    euros: "EUR",
+    "£": "GBP",
+    "e£": "EGP",
+    pound: "EGP",
+    pounds: "EGP",
+    جنيه: "EGP",
+};
+
+function toNumber(text: string) {
+    return Number(text.replace(/,/g, ""));
+}
+
+// Answers may round: "$45" for 44.99 is the same price.
+function includesAmount(amounts: Iterable<number>, amount: number) {
+    for (const known of amounts) {
+        if (Math.abs(known - amount) < 0.01 || Math.round(known) === amount) {
+            return true;
+        }
+    }
+    return false;
+}
+
+export interface FoundPrice {
+    text: string;
+    amount: number;
+    currency: string;
+    index: number;
+}
+
+/** Currency amounts in `text`, with the currency they were written in. */
+export function findPrices(text: string): FoundPrice[] {
+    return [...text.matchAll(PRICE_PATTERN)].map((match) => {
+        const [, before, amount, amountFirst, after] = match;
+        const unit = (before ?? after ?? "").trim().toLowerCase();
+        return {
+            text: match[0].trim(),
+            amount: toNumber(amount ?? amountFirst),
+            currency: CURRENCY_WORDS[unit] ?? unit.toUpperCase(),
+            index: match.index,
+        };
+    });
+}
+
+/** Every number in `values`, including those inside text fields. */
+function collectNumbers(value: unknown, into = new Set<number>()) {
+    if (typeof value === "number") {
+        into.add(value);
+    } else if (typeof value === "string") {
+        for (const match of value.match(NUMBER_PATTERN) ?? []) {
+            into.add(toNumber(match));
+        }
+    } else if (Array.isArray(value)) {
+        value.forEach((item) => collectNumbers(item, into));
+    } else if (typeof value === "object" && value !== null) {
+        Object.values(value).forEach((item) => collectNumbers(item, into));
+    }
+    return into;
+}
+
+/**
+ * The amounts in price fields (`price`, `userPrice`, `discountAmount`,
+ * `price_max`...), so IDs, ratings, counts and dates never pass for prices.
+ */
+function priceAmounts(value: unknown, into = new Set<number>()) {
+    if (Array.isArray(value)) {
+        value.forEach((item) => priceAmounts(item, into));
+    } else if (typeof value === "object" && value !== null) {
+        for (const [key, field] of Object.entries(value)) {
+            if (PRICE_FIELD_PATTERN.test(key)) {
+                collectNumbers(field, into);
+            } else {
+                priceAmounts(field, into);
+            }
+        }
+    }
+    return into;
+}
+
+/**
+ * The amounts an answer may quote as prices: those in the tool results'
+ * price fields, and those the user wrote with a currency ("under $50").
+ */
+export function knownAmounts(toolResults: unknown[], userTexts: string[]) {
+    const amounts = priceAmounts(toolResults);
+    for (const text of userTexts) {
+        findPrices(text).forEach(({ amount }) => amounts.add(amount));
+    }
+    return amounts;
+}
+
+function knownListing(raw: Record<string, unknown>): KnownListing {
+    const en = normalizeListing(raw, "en");
+    const ar = normalizeListing(raw, "ar");
+    const prices: Price[] = [];
+    if (en.price !== undefined) {
+        prices.push({
+            amount: en.price,
+            currency: en.currency ?? backendCurrency(),
+        });
+    }
+    const userPrice = raw.userPrice as Price | undefined;
+    if (userPrice?.amount !== undefined) prices.push(userPrice);
+    return {
+        titles: [...new Set([en.title, ar.title])].filter(Boolean),
+        url: en.url,
+        prices,
+        amounts: priceAmounts(raw),
+    };
+}
+
+/**
+ * What an answer may quote: the listings returned this turn and earlier in
+ * the conversation, so restating an earlier price is fine, and the price
+ * amounts in those tool results and the user's messages ("under $50").
+ */
+export function groundingSources(
+    messages: Message[],
+    turnResults: unknown[]
+): GroundingSources {
+    const toolResults = [
+        ...messages.flatMap(({ toolInvocations }) =>
+            (toolInvocations ?? []).map((invocation) =>
+                invocation.state === "result" ? invocation.result : undefined
+            )
+        ),
+        ...turnResults,
+    ];
+    const userTexts = messages
+        .filter(({ role }) => role === "user")
+        .map(({ content }) => content);
+    return {
+        listings: toolResults.flatMap((result) =>
+            extractRawListings(result).map(knownListing)
+        ),
+        amounts: knownAmounts(toolResults, userTexts),
+    };
+}
+
+function normalizeName(text: string) {
+    return text
+        .toLowerCase()
+        .replace(/[^\p{L}\p{N}]+/gu, " ")
+        .trim();
+}
+
+function namesListing(name: string, listing: KnownListing) {
+    const wanted = normalizeName(name);
+    return listing.titles.some((title) => {
+        const known = normalizeName(title);
+        return known.includes(wanted) || wanted.includes(known);
+    });
+}
+
+function normalizeUrl(url: string) {
+    return url.replace(/[.,;:!?]+$/, "").replace(/\/+$/, "");
+}
+
+// "https://ithaka.world/activities/x" → "https://ithaka.world/activities/",
+// so other pages on the same site (FAQ links) are left alone.
+function listingUrlPrefix(url: string) {
+    try {
+        const { origin, pathname } = new URL(url);
+        return `${origin}/${pathname.split("/")[1]}/`;
+    } catch {
+        return undefined;
+    }
+}
+
+function checkLine(
+    line: string,
+    sources: GroundingSources,
+    prefixes: Set<string>,
+    issues: GroundingIssue[]
+) {
+    let listing: KnownListing | undefined;
+    for (const url of line.match(URL_PATTERN) ?? []) {
+        const prefix = listingUrlPrefix(url);
+        if (!prefix || !prefixes.has(prefix)) continue;
+        const linked = sources.listings.find(
+            (known) => normalizeUrl(known.url) === normalizeUrl(url)
+        );
+        if (linked) listing ??= linked;
+        else issues.push({ kind: "url", found: url });
+    }
+
+    const prices = findPrices(line);
+    // Listings are presented as list items with a price or link; titles
+    // run to a few words, while "**Price:**" is a label.
+    const names = [...line.matchAll(BOLD_PATTERN)]
+        .map((match) => match[1].trim())
+        .filter(
+            (name) => name.split(/\s+/).length >= 3 && !name.endsWith(":")
+        );
+    if (LIST_ITEM_PATTERN.test(line) && (prices.length > 0 || listing)) {
+        for (const name of names) {
+            const named = sources.listings.filter((known) =>
+                namesListing(name, known)
+            );
+            if (named.length === 0) {
+                issues.push({ kind: "listing", found: name });
+            } else if (listing && !named.includes(listing)) {
+                issues.push({
+                    kind: "listing",
+                    found: name,
+                    expected: listing.titles[0],
+                });
+            } else if (!listing && named.length === 1) {
+                listing = named[0];
+            }
+        }
+    }
+
+    // Replaced right to left so earlier indexes stay valid.
+    let corrected = line;
+    for (const price of prices.reverse()) {
+        if (!listing) {
+            if (!includesAmount(sources.amounts, price.amount)) {
+                issues.push({ kind: "price", found: price.text });
+            }
+            continue;
+        }
+        if (includesAmount(listing.amounts, price.amount)) continue;
+
+        const actual = listing.prices.find(
+            ({ currency }) => currency === price.currency
+        );
+        const expected = actual && formatPrice(actual.amount, actual.currency);
+        issues.push({ kind: "price", found: price.text, expected });
+        if (expected) {
+            corrected =
+                corrected.slice(0, price.index) +
+                expected +
+                corrected.slice(price.index + price.text.length);
+        }
+    }
+    return corrected;
+}
+
+/**
+ * Checks the prices, listing names and listing links in an answer against
+ * the listing data the tools returned. A price quoted next to a listing
+ * must be that listing's; when it isn't, it is replaced with the real one
+ * if the answer used the same currency. Everything else that can't be
+ * matched is reported for the page to mark as unverified.
+ */
+export function verifyAnswer(
+    text: string,
+    sources: GroundingSources
+): GroundingAnnotation | undefined {
+    const prefixes = new Set(
+        sources.listings
+            .map(({ url }) => listingUrlPrefix(url))
+            .filter((prefix): prefix is string => prefix !== undefined)
+    );
+    const issues: GroundingIssue[] = [];
+    const corrected = text
+        .split("\n")
+        .map((line) => checkLine(line, sources, prefixes, issues))
+        .join("\n");
+    if (issues.length === 0) return undefined;
+    return {
+        type: "grounding",
+        issues,
+        ...(corrected !== text && { correctedText: corrected }),
+    };
+}
+
+/** The saved form of a checked answer: corrected text and the annotation. */
+export function withGrounding(
+    message: Message,
+    grounding: GroundingAnnotation
+): Message {
+    const { correctedText } = grounding;
+    // The answer was checked as its text parts joined by "\n", and
+    // corrections never add or remove lines, so each part takes back as
+    // many lines as it gave.
+    const lines = correctedText?.split("\n") ?? [];
+    return {
+        ...message,
+        ...(correctedText !== undefined && {
+            content: correctedText,
+            parts: message.parts?.map((part) =>
+                part.type === "text"
+                    ? {
+                          ...part,
+                          text: lines
+                              .splice(0, part.text.split("\n").length)
+                              .join("\n"),
+                      }
+                    : part
+            ),
+        }),
+        annotations: [...(message.annotations ?? []), grounding],
+    };
+}
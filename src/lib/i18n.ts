@@ -0,0 +1,189 @@
+import { readCookie } from "@/lib/cookies";
+
+export const LOCALES = ["en", "ar"] as const;
+
+export type Locale = (typeof LOCALES)[number];
+
+export const DEFAULT_LOCALE: Locale = "en";
+
+// Read by the root layout so the first paint already has the right lang/dir.
+export const LOCALE_COOKIE = "ithaka.locale";
+
+export function isLocale(value: unknown): value is Locale {
+    return (
+        typeof value === "string" &&
+        (LOCALES as readonly string[]).includes(value)
+    );
+}
+
+export function textDirection(locale: Locale) {
+    return locale === "ar" ? "rtl" : "ltr";
+}
+
+/**
+ * The language a message is written in, judged by its letters: mostly
+ * Arabic script means Arabic. Messages without letters ("500", "👍") keep
+ * `fallback`.
+ */
+export function detectLocale(text: string, fallback: Locale = DEFAULT_LOCALE) {
+    const arabic = text.match(/[؀-ۿݐ-ݿ]/g)?.length ?? 0;
+    const latin = text.match(/[A-Za-z]/g)?.length ?? 0;
+    if (arabic + latin === 0) return fallback;
+    return arabic >= latin ? "ar" : "en";
+}
+
+/** Picks the first supported language from an Accept-Language header. */
+export function localeFromAcceptLanguage(header: string | null | undefined) {
+    const preferred = (header ?? "")
+        .split(",")
+        .map((part) => {
+            const [tag, q] = part.trim().split(";q=");
+            return { tag: tag.toLowerCase(), q: q ? Number(q) : 1 };
+        })
+        .sort((a, b) => b.q - a.q)
+        .map(({ tag }) => tag.split("-")[0])
+        .find(isLocale);
+    return preferred ?? DEFAULT_LOCALE;
+}
+
+/** The language switch's choice, or else the browser's, as the layout does. */
+export function requestLocale(req: Request) {
+    const saved = readCookie(req, LOCALE_COOKIE);
+    return isLocale(saved)
+        ? saved
+        : localeFromAcceptLanguage(req.headers.get("accept-language"));
+}
+
+/**
+ * An entity's name in `locale` where the API provides one, either as a
+ * `name_ar` field or as a `{ en, ar }` object; otherwise its plain name.
+ */
+export function localizedName(
+    entity: { name?: unknown } & Record<string, unknown>,
+    locale: Locale
+) {
+    const suffixed = entity[`name_${locale}`];
+    if (typeof suffixed === "string" && suffixed.trim()) return suffixed;
+    const { name } = entity;
+    if (typeof name === "object" && name !== null) {
+        const translations = name as Record<string, unknown>;
+        const translated = translations[locale] ?? translations.en;
+        if (typeof translated === "string") return translated;
+    }
+    return typeof name === "string" ? name : undefined;
+}
+
+/** Every translation of an entity's name, for matching user input. */
+export function translatedNames(entity: Record<string, unknown>) {
+    return LOCALES.map((locale) => localizedName(entity, locale)).filter(
+        (name): name is string => name !== undefined
+    );
+}
+
+export interface UiStrings {
+    title: string;
+    greeting: string;
+    you: string;
+    assistant: string;
+    typing: string;
+    placeholder: string;
+    send: string;
+    stop: string;
+    regenerate: string;
+    edit: string;
+    save: string;
+    cancel: string;
+    listingCurrency: string;
+    switchLanguage: string;
+    unverified: string;
+    unverifiedHint: string;
+    corrected: string;
+    close: string;
+    // Listing cards.
+    addToTrip: string;
+    book: string;
+    priceOnRequest: string;
+    errors: {
+        generic: string;
+        rateLimited: (seconds: number) => string;
+        tooLarge: string;
+        messageTooLong: (limit: number) => string;
+        tooManyMessages: (limit: number) => string;
+        invalidRequest: string;
+    };
+}
+
+export const UI_STRINGS: Record<Locale, UiStrings> = {
+    en: {
+        title: "Ithaka AI Travel Assistant",
+        greeting:
+            "Hi! I'm **Ithaka's** specialized AI travel assistant. How can I help you today? ",
+        you: "You",
+        assistant: "Ithaka AI",
+        typing: "Ithaka AI is typing...",
+        placeholder: "Type your message...",
+        send: "Send",
+        stop: "Stop",
+        regenerate: "Regenerate answer",
+        edit: "Edit message",
+        save: "Send",
+        cancel: "Cancel",
+        listingCurrency: "Listing currency",
+        switchLanguage: "العربية",
+        unverified: "Unverified",
+        unverifiedHint:
+            "Not found in the listing data, please double-check before booking:",
+        corrected: "Prices corrected to match the listing data",
+        close: "Close chat",
+        addToTrip: "Trip",
+        book: "Book",
+        priceOnRequest: "Price on request",
+        errors: {
+            generic: "An error occurred. Please try again.",
+            rateLimited: (seconds) =>
+                `Too many requests. Please wait ${seconds} seconds and try again.`,
+            tooLarge: "Request is too large.",
+            messageTooLong: (limit) =>
+                `Messages are limited to ${limit} characters. Please shorten yours.`,
+            tooManyMessages: (limit) =>
+                `Conversations are limited to ${limit} messages. Please start a new chat.`,
+            invalidRequest: "The request could not be read. Please try again.",
+        },
+    },
+    ar: {
+        title: "مساعد إيثاكا للسفر",
+        greeting:
+            "أهلاً! أنا مساعد السفر الذكي من **إيثاكا**. كيف يمكنني مساعدتك اليوم؟",
+        you: "أنت",
+        assistant: "مساعد إيثاكا",
+        typing: "مساعد إيثاكا يكتب...",
+        placeholder: "اكتب رسالتك...",
+        send: "إرسال",
+        stop: "إيقاف",
+        regenerate: "إعادة إنشاء الرد",
+        edit: "تعديل الرسالة",
+        save: "إرسال",
+        cancel: "إلغاء",
+        listingCurrency: "عملة العرض",
+        switchLanguage: "English",
+        unverified: "غير مؤكد",
+        unverifiedHint:
+            "غير موجود في بيانات الأنشطة، يرجى التحقق قبل الحجز:",
+        corrected: "تم تصحيح الأسعار لتطابق بيانات الأنشطة",
+        close: "إغلاق المحادثة",
+        addToTrip: "الرحلة",
+        book: "احجز",
+        priceOnRequest: "السعر عند الطلب",
+        errors: {
+            generic: "حدث خطأ. حاول مرة أخرى من فضلك.",
+            rateLimited: (seconds) =>
+                `طلبات كثيرة جداً. انتظر ${seconds} ثانية ثم حاول مرة أخرى.`,
+            tooLarge: "الطلب كبير جداً.",
+            messageTooLong: (limit) =>
+                `الحد الأقصى للرسالة ${limit} حرفاً. من فضلك اختصر رسالتك.`,
+            tooManyMessages: (limit) =>
+                `الحد الأقصى للمحادثة ${limit} رسالة. من فضلك ابدأ محادثة جديدة.`,
+            invalidRequest: "تعذرت قراءة الطلب. حاول مرة أخرى من فضلك.",
+        },
+    },
+};
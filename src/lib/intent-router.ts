@@ -0,0 +1,129 @@
+import { generateText, type LanguageModel, type Message, type Tool } from "ai";
+import type { Locale } from "@/lib/i18n";
+import { detectIntent, isIntent, type Intent, type Topic } from "@/lib/intent";
+import { logger } from "@/lib/telemetry/logger";
+
+export interface IntentDecision {
+    intent: Intent;
+    // `default` means neither the rules nor the model could tell.
+    source: "rules" | "model" | "default";
+}
+
+export interface ClassifyOptions {
+    model?: LanguageModel;
+    abortSignal?: AbortSignal;
+    timeoutMs?: number;
+}
+
+const DEFAULT_TIMEOUT_MS = 3000;
+// Enough of the conversation to place follow-ups like "cheaper ones?".
+const CONTEXT_MESSAGES = 4;
+const CONTEXT_CHARS = 500;
+
+const CLASSIFIER_PROMPT = `You route messages for Ithaka, a website for booking tours and activities in Egypt.
+Classify the user's latest message, using the earlier messages only as context.
+Answer with exactly one of these words and nothing else:
+travel: finding, comparing or planning tours, activities, destinations and trips
+privacy: Ithaka's privacy policy and what happens to the user's personal data
+faq: bookings, payments, refunds, cancellations, accounts, becoming a tour operator and other questions about using Ithaka
+off_topic: requests unrelated to travel or Ithaka, such as coding, homework, news or general knowledge
+unknown: greetings, thanks, or messages that mix several of the above`;
+
+const TOPIC_TOOLS: Record<Topic, string[]> = {
+    travel: [
+        "searchListings",
+        "getListingDetails",
+        "checkAvailability",
+        "compareListings",
+        "resolveEntities",
+        "addToItinerary",
+        "removeFromItinerary",
+        "reorderItinerary",
+    ],
+    privacy: ["lookupPrivacySection"],
+    faq: ["searchFaq"],
+};
+
+const OFF_TOPIC_REPLIES: Record<Locale, string> = {
+    en: "Sorry, I can only help with travel in Egypt and questions about Ithaka: finding tours and activities, planning a trip, bookings and payments, or our privacy policy. What would you like to explore?",
+    ar: "عذراً، يمكنني المساعدة فقط في السفر داخل مصر والأسئلة المتعلقة بإيثاكا: البحث عن الجولات والأنشطة، وتخطيط الرحلات، والحجوزات والدفع، وسياسة الخصوصية. ماذا تود أن تستكشف؟",
+};
+
+function transcript(messages: Message[]) {
+    return messages
+        .filter(({ role }) => role === "user" || role === "assistant")
+        .slice(-CONTEXT_MESSAGES)
+        .map(
+            ({ role, content }) => `${role}: ${content.slice(0, CONTEXT_CHARS)}`
+        )
+        .join("\n");
+}
+
+/** Reads the label out of the model's answer ("Off-topic." → off_topic). */
+export function parseIntent(text: string): Intent | undefined {
+    const label = text
+        .trim()
+        .toLowerCase()
+        .replace(/[\s-]+/g, "_")
+        .match(/[a-z_]+/)?.[0];
+    return isIntent(label) ? label : undefined;
+}
+
+/**
+ * Rules first, since they are free; the model only sees messages the rules
+ * can't place. A slow or failing model never blocks the answer: the turn
+ * then gets the full prompt and toolset.
+ */
+export async function classifyIntent(
+    messages: Message[],
+    {
+        model,
+        abortSignal,
+        timeoutMs = DEFAULT_TIMEOUT_MS,
+    }: ClassifyOptions = {}
+): Promise<IntentDecision> {
+    const ruled = detectIntent(messages.at(-1)?.content ?? "");
+    if (ruled !== "unknown") return { intent: ruled, source: "rules" };
+    if (!model) return { intent: "unknown", source: "default" };
+
+    const timeout = AbortSignal.timeout(timeoutMs);
+    try {
+        const { text } = await generateText({
+            model,
+            system: CLASSIFIER_PROMPT,
+            prompt: transcript(messages),
+            temperature: 0,
+            maxTokens: 10,
+            maxRetries: 0,
+            abortSignal: abortSignal
+                ? AbortSignal.any([abortSignal, timeout])
+                : timeout,
+        });
+        const intent = parseIntent(text);
+        return intent
+            ? { intent, source: "model" }
+            : { intent: "unknown", source: "default" };
+    } catch (error) {
+        logger.warn("Intent model failed, routing to the full prompt", {
+            error,
+        });
+        return { intent: "unknown", source: "default" };
+    }
+}
+
+/** The tools a turn with `intent` may use; unclear turns keep them all. */
+export function toolsForIntent(
+    tools: Record<string, Tool>,
+    intent: Intent
+): Record<string, Tool> {
+    if (intent === "unknown" || intent === "off_topic") return tools;
+    const allowed = TOPIC_TOOLS[intent];
+    return Object.fromEntries(
+        Object.entries(tools).filter(([name]) => allowed.includes(name))
+    );
+}
+
+/** The fixed answer to off-topic requests; the chat model never sees them. */
+export function offTopicReply(locale: Locale) {
+    return OFF_TOPIC_REPLIES[locale];
+}
@@ -0,0 +1,53 @@
+/** The kinds of question the assistant has rules and tools for. */
+export type Topic = "travel" | "privacy" | "faq";
+
+/**
+ * What the user's latest message is about. `unknown` covers follow-ups
+ * ("show me more"), greetings, mixed questions and anything that can't be
+ * placed, and gets the full prompt and toolset. `off_topic` is declined.
+ */
+export type Intent = Topic | "off_topic" | "unknown";
+
+export const INTENTS: Intent[] = [
+    "travel",
+    "privacy",
+    "faq",
+    "off_topic",
+    "unknown",
+];
+
+export function isIntent(value: unknown): value is Intent {
+    return INTENTS.includes(value as Intent);
+}
+
+const INTENT_PATTERNS: [Exclude<Intent, "unknown">, RegExp][] = [
+    [
+        "privacy",
+        /\b(privacy|personal (data|information)|my (data|information)|gdpr|cookies?|data protection|delete my (account|data)|third[- ]part(y|ies))\b|خصوصية|الخصوصية|بياناتي|بيانات شخصية/i,
+    ],
+    [
+        "faq",
+        /\b(refunds?|payment|pay(ing)? (with|by)|how (do|can) i (book|pay|cancel|contact|become|join|sign up|change)|cancel(ling|lation)? (my|a) booking|tour operator|customer (support|service)|contact (you|ithaka|support)|(my|an|your) account|(create|close|delete|log ?in( to)?|sign (in|up)( to| for)?) (an? |your )?account)\b|استرداد|الدفع|إلغاء الحجز|الغاء الحجز|خدمة العملاء/i,
+    ],
+    [
+        "travel",
+        /\b(tours?|activit(y|ies)|trips?|visit(ing)?|things to do|experiences?|destinations?|excursions?|safari|diving|snorkel(l?ing)?|cruise|itinerary|weekend|holiday|vacation|cairo|giza|alexandria|luxor|aswan|dahab|hurghada|sharm|siwa|pyramids?|nile)\b|رحلة|رحلات|جولة|جولات|نشاط|أنشطة|انشطة|زيارة|القاهرة|الجيزة|الأقصر|أسوان|الغردقة|دهب|سيوة|الإسكندرية/i,
+    ],
+    [
+        // Only requests that are unmistakably something else; anything
+        // that also mentions travel is left to the router model.
+        "off_topic",
+        /\b(write (me )?(a |an |some )?(\w+ )?(code|program|script|function|essay|poem|song)|debug (my|this)|homework|solve (this|the|an?) (equation|problem)|(stock|share) prices?|bitcoin|who won the (match|game|election))\b|واجب منزلي|سعر السهم|بيتكوين/i,
+    ],
+];
+
+/**
+ * Rule-based and deliberately conservative: a message only gets an intent
+ * when exactly one kind of rule matches.
+ */
+export function detectIntent(text: string): Intent {
+    const matches = INTENT_PATTERNS.filter(([, pattern]) =>
+        pattern.test(text)
+    ).map(([intent]) => intent);
+    return matches.length === 1 ? matches[0] : "unknown";
+}
@@ -0,0 +1,204 @@
+import { z } from "zod";
+import {
+    IthakaAbortedError,
+    IthakaHttpError,
+    IthakaNetworkError,
+    IthakaSchemaError,
+} from "@/lib/ithaka/errors";
+import {
+    availabilitySchema,
+    categorySchema,
+    destinationSchema,
+    envelope,
+    listingScheduleSchema,
+    listingSchema,
+    pageSchema,
+    paginatedListingsSchema,
+    promotionSchema,
+} from "@/lib/ithaka/schemas";
+
+export const DEFAULT_API_BASE_URL = "https://prelive-be.ithaka.world/api";
+
+// Kept small: every listing on a page ends up in the model's context.
+export const DEFAULT_SEARCH_PAGE_SIZE = 8;
+
+export const MOCK_BASE_URL = "http://ithaka.mock";
+
+// The fixture server is only loaded in mock mode, so it never ships with
+// or runs in a deployment that talks to the real backend.
+const fixtureFetch: typeof fetch = async (input, init) => {
+    const { mockFetch } = await import("@/lib/ithaka/mock/server");
+    return mockFetch(input, init);
+};
+
+export interface IthakaClientOptions {
+    baseUrl?: string;
+    fetch?: typeof fetch;
+    // Cancels every request made through this client.
+    signal?: AbortSignal;
+}
+
+export interface ListingsFilter {
+    destination?: string;
+    category?: string;
+    priceRange?: [number, number];
+    date?: string;
+}
+
+export class IthakaClient {
+    readonly baseUrl: string;
+    private readonly fetchImpl: typeof fetch;
+    private readonly signal?: AbortSignal;
+
+    constructor(options: IthakaClientOptions = {}) {
+        // ITHAKA_API_MODE=mock serves fixtures in-process for offline work.
+        const useMock = process.env.ITHAKA_API_MODE === "mock";
+        this.baseUrl = (
+            options.baseUrl ??
+            (useMock ? MOCK_BASE_URL : process.env.ITHAKA_API_BASE_URL) ??
+            DEFAULT_API_BASE_URL
+        ).replace(/\/+$/, "");
+        this.fetchImpl = options.fetch ?? (useMock ? fixtureFetch : fetch);
+        this.signal = options.signal;
+    }
+
+    /**
+     * The same client, but cancelled with `signal`. Tools pass the chat
+     * request's signal so a stopped answer stops its backend calls too.
+     */
+    withSignal(signal: AbortSignal | undefined) {
+        if (!signal) return this;
+        return new IthakaClient({
+            baseUrl: this.baseUrl,
+            fetch: this.fetchImpl,
+            signal,
+        });
+    }
+
+    private async request<T extends z.ZodTypeAny>(
+        path: string,
+        schema: T,
+        params?: URLSearchParams
+    ): Promise<z.infer<T>> {
+        const query = params?.toString();
+        const url = `${this.baseUrl}${path}${query ? `?${query}` : ""}`;
+
+        let response: Response;
+        try {
+            response = await this.fetchImpl(url, {
+                headers: { Accept: "application/json" },
+                signal: this.signal,
+            });
+        } catch (error) {
+            if (this.signal?.aborted) {
+                throw new IthakaAbortedError(url, error);
+            }
+            throw new IthakaNetworkError(url, error);
+        }
+
+        if (!response.ok) {
+            const body = await response.text().catch(() => undefined);
+            throw new IthakaHttpError(url, response.status, body);
+        }
+
+        let json: unknown;
+        try {
+            json = await response.json();
+        } catch (error) {
+            if (this.signal?.aborted) {
+                throw new IthakaAbortedError(url, error);
+            }
+            throw new IthakaNetworkError(url, error);
+        }
+
+        const parsed = envelope(schema).safeParse(json);
+        if (!parsed.success) {
+            throw new IthakaSchemaError(url, parsed.error.issues);
+        }
+        return parsed.data.data;
+    }
+
+    fetchDestinations() {
+        return this.request("/destinations", z.array(destinationSchema));
+    }
+
+    fetchCategories() {
+        return this.request("/categories", z.array(categorySchema));
+    }
+
+    async fetchPrivacyPolicy() {
+        const page = await this.request("/pages/privacy_policy", pageSchema);
+        return page.page_contents;
+    }
+
+    async fetchFaq() {
+        const page = await this.request("/pages/faq", pageSchema);
+        return page.page_contents;
+    }
+
+    async fetchListings(filter?: ListingsFilter) {
+        const params = new URLSearchParams();
+        if (filter?.destination)
+            params.append("destination", filter.destination);
+        if (filter?.category) params.append("category", filter.category);
+        if (filter?.priceRange)
+            params.append("price_range", filter.priceRange.join(","));
+        if (filter?.date) params.append("date", filter.date);
+
+        const page = await this.request(
+            "/activities",
+            paginatedListingsSchema,
+            params
+        );
+        return page.listings;
+    }
+
+    searchListings(params: URLSearchParams) {
+        const query = new URLSearchParams(params);
+        if (!query.has("per_page")) {
+            query.set("per_page", String(DEFAULT_SEARCH_PAGE_SIZE));
+        }
+        return this.request(
+            "/activities/ai-tool",
+            paginatedListingsSchema,
+            query
+        );
+    }
+
+    fetchListing(id: number | string) {
+        return this.request(
+            `/activities/${encodeURIComponent(id)}`,
+            listingSchema
+        );
+    }
+
+    /** Departures and remaining places per day between two ISO dates. */
+    fetchListingSchedule(
+        id: number | string,
+        { from, to }: { from: string; to: string }
+    ) {
+        return this.request(
+            `/activities/${encodeURIComponent(id)}/schedules`,
+            listingScheduleSchema,
+            new URLSearchParams({ from_date: from, to_date: to })
+        );
+    }
+
+    fetchAvailability(id: number | string, date: string) {
+        return this.request(
+            `/activities/${encodeURIComponent(id)}/availability`,
+            availabilitySchema,
+            new URLSearchParams({ date })
+        );
+    }
+
+    /** Discounts and promotions currently attached to the activity. */
+    fetchListingPromotions(id: number | string) {
+        return this.request(
+            `/activities/${encodeURIComponent(id)}/promotions`,
+            z.array(promotionSchema)
+        );
+    }
+}
+
+export const ithakaClient = new IthakaClient();
@@ -0,0 +1,60 @@
+import type { ZodError } from "zod";
+
+export class IthakaError extends Error {
+    constructor(
+        message: string,
+        readonly url: string,
+        options?: { cause?: unknown }
+    ) {
+        super(message, options);
+        this.name = "IthakaError";
+    }
+}
+
+/** The caller cancelled the request, e.g. the user pressed Stop. */
+export class IthakaAbortedError extends IthakaError {
+    constructor(url: string, cause: unknown) {
+        super(`Request to ${url} was cancelled`, url, { cause });
+        this.name = "IthakaAbortedError";
+    }
+}
+
+/**
+ * The request failed in transit: no response (DNS failure, connection
+ * reset) or a body cut short. Cancellations are `IthakaAbortedError`.
+ */
+export class IthakaNetworkError extends IthakaError {
+    constructor(url: string, cause: unknown) {
+        super(`Could not reach Ithaka API at ${url}`, url, { cause });
+        this.name = "IthakaNetworkError";
+    }
+}
+
+/** The backend answered with a non-2xx status. */
+export class IthakaHttpError extends IthakaError {
+    constructor(
+        url: string,
+        readonly status: number,
+        readonly body?: string
+    ) {
+        super(`Ithaka API responded ${status} for ${url}`, url);
+        this.name = "IthakaHttpError";
+    }
+}
+
+/** The backend answered, but not with the shape this client expects. */
+export class IthakaSchemaError extends IthakaError {
+    constructor(
+        url: string,
+        readonly issues: ZodError["issues"]
+    ) {
+        super(
+            `Unexpected response from ${url}: ${issues
+                .slice(0, 3)
+                .map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+                .join("; ")}`,
+            url
+        );
+        this.name = "IthakaSchemaError";
+    }
+}
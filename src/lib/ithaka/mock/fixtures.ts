@@ -0,0 +1,404 @@
+// Hand-written stand-in data for the Ithaka backend. Shapes mirror what the
+// real API returns so the zod schemas in `../schemas.ts` accept them as-is.
+
+export const destinations = [
+    { id: 1, name: "Cairo", name_ar: "القاهرة", slug: "cairo" },
+    { id: 2, name: "Giza", name_ar: "الجيزة", slug: "giza" },
+    { id: 3, name: "Alexandria", name_ar: "الإسكندرية", slug: "alexandria" },
+    { id: 4, name: "Luxor", name_ar: "الأقصر", slug: "luxor" },
+    { id: 5, name: "Aswan", name_ar: "أسوان", slug: "aswan" },
+    { id: 6, name: "Dahab", name_ar: "دهب", slug: "dahab" },
+    { id: 7, name: "Hurghada", name_ar: "الغردقة", slug: "hurghada" },
+    {
+        id: 8,
+        name: "Sharm El Sheikh",
+        name_ar: "شرم الشيخ",
+        slug: "sharm-el-sheikh",
+    },
+    { id: 9, name: "Siwa", name_ar: "سيوة", slug: "siwa" },
+];
+
+export const categories = [
+    {
+        id: 1,
+        name: "Adventure",
+        name_ar: "مغامرات",
+        slug: "adventure",
+        parent_id: null,
+    },
+    {
+        id: 2,
+        name: "Cultural",
+        name_ar: "ثقافة",
+        slug: "cultural",
+        parent_id: null,
+    },
+    {
+        id: 3,
+        name: "Food & Drink",
+        name_ar: "طعام وشراب",
+        slug: "food-drink",
+        parent_id: null,
+    },
+    {
+        id: 4,
+        name: "Water Sports",
+        name_ar: "رياضات مائية",
+        slug: "water-sports",
+        parent_id: 1,
+    },
+    {
+        id: 5,
+        name: "Relaxation",
+        name_ar: "استرخاء",
+        slug: "relaxation",
+        parent_id: null,
+    },
+    {
+        id: 6,
+        name: "Sightseeing",
+        name_ar: "معالم سياحية",
+        slug: "sightseeing",
+        parent_id: 2,
+    },
+    {
+        id: 7,
+        name: "Desert Safari",
+        name_ar: "سفاري صحراوية",
+        slug: "desert-safari",
+        parent_id: 1,
+    },
+];
+
+export interface MockListing {
+    id: number;
+    title: string;
+    slug: string;
+    description: string;
+    price: number;
+    currency: string;
+    duration: string;
+    rating: number;
+    reviews_count: number;
+    bookings_count: number;
+    image: string;
+    destination: { id: number; name: string; name_ar: string };
+    category: { id: number; name: string; name_ar: string };
+    available_from: string;
+    available_to: string;
+    inclusions: string[];
+    cancellation_policy: string;
+}
+
+function listing(
+    id: number,
+    title: string,
+    destinationId: number,
+    categoryId: number,
+    fields: Pick<
+        MockListing,
+        "price" | "duration" | "rating" | "reviews_count" | "bookings_count"
+    > & {
+        description: string;
+        available_from?: string;
+        available_to?: string;
+        inclusions?: string[];
+        cancellation_policy?: string;
+    }
+): MockListing {
+    const destination = destinations.find((d) => d.id === destinationId)!;
+    const category = categories.find((c) => c.id === categoryId)!;
+    const slug = title.toLowerCase().replace(/[^a-z0-9]+/g, "-");
+    return {
+        id,
+        title,
+        slug,
+        currency: "USD",
+        image: `https://images.example.com/ithaka/${slug}.jpg`,
+        destination: {
+            id: destination.id,
+            name: destination.name,
+            name_ar: destination.name_ar,
+        },
+        category: {
+            id: category.id,
+            name: category.name,
+            name_ar: category.name_ar,
+        },
+        available_from: "2025-01-01",
+        available_to: "2027-12-31",
+        inclusions: ["Licensed local guide", "Bottled water"],
+        cancellation_policy:
+            "Free cancellation up to 24 hours before the start time",
+        ...fields,
+    };
+}
+
+export const listings: MockListing[] = [
+    listing(101, "Giza Pyramids Sunrise Tour", 2, 6, {
+        description: "Watch the sun rise over the Great Pyramids with an Egyptologist guide.",
+        price: 45,
+        duration: "4 hours",
+        rating: 4.9,
+        reviews_count: 812,
+        bookings_count: 3400,
+        inclusions: [
+            "Egyptologist guide",
+            "Hotel pickup and drop-off",
+            "Plateau entry ticket",
+            "Breakfast box",
+        ],
+    }),
+    listing(102, "Camel Ride Around the Pyramids", 2, 1, {
+        description: "A classic camel trek across the Giza plateau at golden hour.",
+        price: 30,
+        duration: "2 hours",
+        rating: 4.6,
+        reviews_count: 540,
+        bookings_count: 2900,
+        inclusions: ["Camel and handler", "Photo stops", "Bottled water"],
+    }),
+    listing(103, "Old Cairo Walking Tour", 1, 2, {
+        description: "Explore Coptic Cairo, the Hanging Church and Ben Ezra Synagogue.",
+        price: 25,
+        duration: "3 hours",
+        rating: 4.7,
+        reviews_count: 310,
+        bookings_count: 1200,
+    }),
+    listing(104, "Cairo Street Food Crawl", 1, 3, {
+        description: "Taste koshari, ta'ameya and feteer in downtown Cairo's best spots.",
+        price: 35,
+        duration: "3 hours",
+        rating: 4.8,
+        reviews_count: 420,
+        bookings_count: 1500,
+    }),
+    listing(105, "Egyptian Museum Guided Visit", 1, 2, {
+        description: "Skip-the-line entry and a guided tour of Tutankhamun's treasures.",
+        price: 55,
+        duration: "3 hours",
+        rating: 4.5,
+        reviews_count: 260,
+        bookings_count: 980,
+    }),
+    listing(106, "Alexandria Library and Citadel Day Trip", 3, 6, {
+        description: "Visit the Bibliotheca Alexandrina, Qaitbay Citadel and the Corniche.",
+        price: 75,
+        duration: "10 hours",
+        rating: 4.4,
+        reviews_count: 150,
+        bookings_count: 640,
+    }),
+    listing(107, "Alexandria Seafood Dinner Cruise", 3, 3, {
+        description: "Fresh Mediterranean seafood aboard a traditional boat at sunset.",
+        price: 60,
+        duration: "3 hours",
+        rating: 4.3,
+        reviews_count: 95,
+        bookings_count: 300,
+    }),
+    listing(108, "Luxor Hot Air Balloon Ride", 4, 1, {
+        description: "Float above the Valley of the Kings at dawn.",
+        price: 120,
+        duration: "3 hours",
+        rating: 4.9,
+        reviews_count: 1020,
+        bookings_count: 4100,
+        inclusions: [
+            "Hotel pickup and drop-off",
+            "45-minute balloon flight",
+            "Flight certificate",
+            "Light breakfast",
+        ],
+        cancellation_policy:
+            "Free cancellation up to 48 hours before; weather cancellations are fully refunded",
+    }),
+    listing(109, "Valley of the Kings and Karnak Temple", 4, 2, {
+        description: "Full-day tour of Luxor's West and East Bank monuments.",
+        price: 85,
+        duration: "8 hours",
+        rating: 4.8,
+        reviews_count: 670,
+        bookings_count: 2300,
+    }),
+    listing(110, "Aswan Felucca Sail to Elephantine Island", 5, 5, {
+        description: "A relaxed felucca sail past Kitchener's Island and Nubian villages.",
+        price: 20,
+        duration: "2 hours",
+        rating: 4.7,
+        reviews_count: 380,
+        bookings_count: 1600,
+    }),
+    listing(111, "Abu Simbel Day Trip from Aswan", 5, 6, {
+        description: "Visit the temples of Ramesses II and Nefertari at Abu Simbel.",
+        price: 140,
+        duration: "12 hours",
+        rating: 4.8,
+        reviews_count: 590,
+        bookings_count: 2100,
+    }),
+    listing(112, "Dahab Blue Hole Snorkeling", 6, 4, {
+        description: "Snorkel the famous Blue Hole and the Bells reef.",
+        price: 40,
+        duration: "6 hours",
+        rating: 4.8,
+        reviews_count: 450,
+        bookings_count: 1900,
+        inclusions: [
+            "Snorkeling gear",
+            "Guide",
+            "Bedouin lunch",
+            "Transfers from Dahab",
+        ],
+    }),
+    listing(113, "Dahab Canyon and Desert Jeep Safari", 6, 7, {
+        description: "Jeep safari to the Coloured Canyon with a Bedouin lunch.",
+        price: 65,
+        duration: "8 hours",
+        rating: 4.6,
+        reviews_count: 210,
+        bookings_count: 700,
+        inclusions: ["4x4 jeep", "Guide", "Bedouin lunch", "Canyon entry"],
+    }),
+    listing(114, "Hurghada Scuba Diving for Beginners", 7, 4, {
+        description: "Two guided dives with PADI instructors, no experience needed.",
+        price: 70,
+        duration: "7 hours",
+        rating: 4.7,
+        reviews_count: 330,
+        bookings_count: 1400,
+        inclusions: [
+            "Two dives",
+            "PADI instructor",
+            "Full equipment",
+            "Boat lunch",
+        ],
+        cancellation_policy: "Non-refundable within 72 hours of the start time",
+    }),
+    listing(115, "Sharm El Sheikh Ras Mohammed Boat Trip", 8, 4, {
+        description: "Snorkeling boat trip to Ras Mohammed National Park with lunch.",
+        price: 55,
+        duration: "8 hours",
+        rating: 4.5,
+        reviews_count: 280,
+        bookings_count: 1100,
+        available_from: "2025-03-01",
+        available_to: "2027-10-31",
+        inclusions: [
+            "Boat trip",
+            "Snorkeling gear",
+            "Lunch on board",
+            "National park fee",
+        ],
+    }),
+    listing(116, "Siwa Oasis Desert Camping", 9, 7, {
+        description: "Overnight camp in the Great Sand Sea with sandboarding and stargazing.",
+        price: 180,
+        duration: "2 days",
+        rating: 4.9,
+        reviews_count: 120,
+        bookings_count: 420,
+        inclusions: [
+            "4x4 transfers",
+            "Tent and bedding",
+            "Dinner and breakfast",
+            "Sandboard",
+        ],
+        cancellation_policy:
+            "Free cancellation up to 7 days before; 50% refund after that",
+    }),
+    listing(117, "Siwa Salt Lake Spa Day", 9, 5, {
+        description: "Float in Siwa's salt lakes and relax at Cleopatra's Spring.",
+        price: 50,
+        duration: "5 hours",
+        rating: 4.6,
+        reviews_count: 85,
+        bookings_count: 260,
+    }),
+];
+
+// Departure times and group size per listing; others run once at 09:00 for
+// up to 12 people, every day.
+export const schedules: Record<
+    number,
+    { start_times: string[]; capacity: number; closed_weekdays?: number[] }
+> = {
+    101: { start_times: ["05:00"], capacity: 16 },
+    102: { start_times: ["08:00", "15:00"], capacity: 10 },
+    106: { start_times: ["10:00"], capacity: 20, closed_weekdays: [2] },
+    108: { start_times: ["05:30"], capacity: 8 },
+    112: { start_times: ["08:30", "13:00"], capacity: 12 },
+    114: { start_times: ["08:00"], capacity: 6 },
+    116: { start_times: ["14:00"], capacity: 10, closed_weekdays: [5] },
+};
+
+export interface MockPromotion {
+    id: number;
+    activity_id: number;
+    title: string;
+    discount_percent: number;
+    code: string | null;
+    valid_from: string;
+    valid_to: string;
+}
+
+export const promotions: MockPromotion[] = [
+    {
+        id: 1,
+        activity_id: 101,
+        title: "Early bird: 10% off sunrise tours",
+        discount_percent: 10,
+        code: null,
+        valid_from: "2025-01-01",
+        valid_to: "2027-12-31",
+    },
+    {
+        id: 2,
+        activity_id: 112,
+        title: "Summer in Dahab",
+        discount_percent: 15,
+        code: "DAHAB15",
+        valid_from: "2026-06-01",
+        valid_to: "2026-09-30",
+    },
+    {
+        id: 3,
+        activity_id: 116,
+        title: "Stargazing season",
+        discount_percent: 20,
+        code: null,
+        valid_from: "2026-10-01",
+        valid_to: "2027-02-28",
+    },
+];
+
+export const faqPage = `
+<h3>How do I book an experience?</h3>
+<p>Open the experience page, pick a date and the number of travellers, then click <strong>Book now</strong> and complete the payment.</p>
+<h3>Can I cancel my booking?</h3>
+<p>Most experiences offer free cancellation up to 24 hours before the start time. The exact cancellation policy is shown on each experience page.</p>
+<h3>How long do refunds take?</h3>
+<p>Refunds are processed within 5 to 10 business days to your original payment method.</p>
+<h3>Which payment methods are accepted?</h3>
+<p>We accept Visa, Mastercard and local Egyptian wallets.</p>
+<h3>How do I become a tour operator?</h3>
+<p>To be part of Ithaka Experience, click on <a href="https://ithaka.world/become-a-tour-operator">Join as a tour operator</a>, fill out the form, and we'll contact you.</p>
+`;
+
+export const privacyPolicyPage = `
+<h2>1. Introduction</h2>
+<p>This policy explains how Ithaka collects and uses your personal data when you use our website and services.</p>
+<h2>2. Data We Collect</h2>
+<p>We collect identity data, contact data, booking and payment data, and usage data such as pages visited.</p>
+<h2>3. How We Use Your Data</h2>
+<p>We use your data to process bookings, provide customer support, and improve our services.</p>
+<h2>4. Sharing With Third Parties</h2>
+<p>We share booking details with the tour operator delivering your experience and with payment processors. We never sell your personal data.</p>
+<h2>5. Data Retention</h2>
+<p>We keep booking records for up to five years to meet accounting obligations, then delete or anonymise them.</p>
+<h2>6. Your Rights</h2>
+<p>You can request access to, correction of, or deletion of your personal data under applicable laws, including the Egyptian Personal Data Protection Law.</p>
+<h2>7. Contact</h2>
+<p>For privacy questions, email <a href="mailto:support@ithaka.world">support@ithaka.world</a>.</p>
+`;
@@ -0,0 +1,257 @@
+import {
+    categories,
+    destinations,
+    faqPage,
+    listings,
+    privacyPolicyPage,
+    promotions,
+    schedules,
+    type MockListing,
+} from "@/lib/ithaka/mock/fixtures";
+
+const DEFAULT_PER_PAGE = 15;
+
+function json(data: unknown, status = 200) {
+    return new Response(JSON.stringify(data), {
+        status,
+        headers: { "Content-Type": "application/json" },
+    });
+}
+
+function numberParam(params: URLSearchParams, name: string) {
+    const value = params.get(name);
+    if (value === null || value === "") return undefined;
+    const number = Number(value);
+    return Number.isFinite(number) ? number : undefined;
+}
+
+function idsParam(params: URLSearchParams, name: string) {
+    return params
+        .getAll(`${name}[]`)
+        .map(Number)
+        .filter((id) => Number.isFinite(id));
+}
+
+// A category filter also matches its sub-categories, as on the live site.
+function expandCategoryIds(ids: number[]) {
+    const expanded = new Set(ids);
+    for (const category of categories) {
+        if (category.parent_id !== null && expanded.has(category.parent_id)) {
+            expanded.add(category.id);
+        }
+    }
+    return expanded;
+}
+
+const SORTERS: Record<string, (a: MockListing, b: MockListing) => number> = {
+    "price-low-to-high": (a, b) => a.price - b.price,
+    "price-high-to-low": (a, b) => b.price - a.price,
+    "best-selling": (a, b) => b.bookings_count - a.bookings_count,
+    "top-reviewed": (a, b) =>
+        b.rating - a.rating || b.reviews_count - a.reviews_count,
+};
+
+export function filterListings(params: URLSearchParams) {
+    const destinationIds = idsParam(params, "destinations");
+    const categoryIds = expandCategoryIds(idsParam(params, "categories"));
+    const minPrice = numberParam(params, "min_price");
+    const maxPrice = numberParam(params, "max_price");
+    const fromDate = params.get("from_date");
+    const toDate = params.get("to_date");
+    const terms = (params.get("search") ?? "")
+        .toLowerCase()
+        .split(/\s+/)
+        .filter(Boolean);
+
+    const results = listings.filter((listing) => {
+        if (
+            destinationIds.length > 0 &&
+            !destinationIds.includes(listing.destination.id)
+        ) {
+            return false;
+        }
+        if (categoryIds.size > 0 && !categoryIds.has(listing.category.id)) {
+            return false;
+        }
+        if (minPrice !== undefined && listing.price < minPrice) return false;
+        if (maxPrice !== undefined && listing.price > maxPrice) return false;
+        // ISO dates compare correctly as strings.
+        if (fromDate && listing.available_to < fromDate) return false;
+        if (toDate && listing.available_from > toDate) return false;
+        if (terms.length > 0) {
+            const haystack = [
+                listing.title,
+                listing.description,
+                listing.destination.name,
+                listing.category.name,
+            ]
+                .join(" ")
+                .toLowerCase();
+            if (!terms.some((term) => haystack.includes(term))) return false;
+        }
+        return true;
+    });
+
+    const sorter = SORTERS[params.get("sort_by") ?? ""];
+    return sorter ? [...results].sort(sorter) : results;
+}
+
+function paginate(items: MockListing[], params: URLSearchParams) {
+    const perPage = Math.max(
+        1,
+        numberParam(params, "per_page") ?? DEFAULT_PER_PAGE
+    );
+    const lastPage = Math.max(1, Math.ceil(items.length / perPage));
+    const page = Math.min(
+        Math.max(1, numberParam(params, "page") ?? 1),
+        lastPage
+    );
+    return {
+        listings: items.slice((page - 1) * perPage, page * perPage),
+        total: items.length,
+        current_page: page,
+        last_page: lastPage,
+        per_page: perPage,
+    };
+}
+
+const DEFAULT_SCHEDULE = { start_times: ["09:00"], capacity: 12 };
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+// Deterministic stand-in for live bookings, so replays see the same slots.
+function hash(text: string) {
+    let value = 2166136261;
+    for (const char of text) {
+        value = Math.imul(value ^ char.charCodeAt(0), 16777619) >>> 0;
+    }
+    return value;
+}
+
+function addDays(date: string, days: number) {
+    const next = new Date(`${date}T00:00:00Z`);
+    next.setUTCDate(next.getUTCDate() + days);
+    return next.toISOString().slice(0, 10);
+}
+
+function scheduleDay(listing: MockListing, date: string) {
+    const config = schedules[listing.id] ?? DEFAULT_SCHEDULE;
+    const weekday = new Date(`${date}T00:00:00Z`).getUTCDay();
+    const open =
+        date >= listing.available_from &&
+        date <= listing.available_to &&
+        !config.closed_weekdays?.includes(weekday);
+    const slots = open
+        ? config.start_times.map((start_time) => {
+              const booked =
+                  hash(`${listing.id}:${date}:${start_time}`) %
+                  (config.capacity + 1);
+              return {
+                  start_time,
+                  total_slots: config.capacity,
+                  remaining_slots: config.capacity - booked,
+                  price: listing.price,
+              };
+          })
+        : [];
+    return {
+        date,
+        available: slots.some((slot) => slot.remaining_slots > 0),
+        slots,
+    };
+}
+
+function activityRequest(path: string, params: URLSearchParams) {
+    const match = path.match(
+        /^\/activities\/(\d+)(?:\/(schedules|availability|promotions))?$/
+    );
+    const listing =
+        match && listings.find((l) => l.id === Number(match[1]));
+    if (!match) {
+        return json({ message: `No mock for ${path}` }, 404);
+    }
+    if (!listing) {
+        return json({ message: "Activity not found" }, 404);
+    }
+
+    switch (match[2]) {
+        case undefined:
+            return json({ data: listing });
+        case "promotions":
+            return json({
+                data: promotions.filter((p) => p.activity_id === listing.id),
+            });
+        case "availability": {
+            const date = params.get("date") ?? "";
+            if (!ISO_DATE.test(date)) {
+                return json({ message: "date must be YYYY-MM-DD" }, 422);
+            }
+            return json({
+                data: {
+                    activity_id: listing.id,
+                    currency: listing.currency,
+                    ...scheduleDay(listing, date),
+                },
+            });
+        }
+        default: {
+            const from = params.get("from_date") ?? "";
+            const to = params.get("to_date") ?? "";
+            if (!ISO_DATE.test(from) || !ISO_DATE.test(to) || from > to) {
+                return json(
+                    { message: "from_date and to_date must be YYYY-MM-DD" },
+                    422
+                );
+            }
+            const days = [];
+            // Capped like the live API, which pages longer ranges.
+            for (
+                let date = from;
+                date <= to && days.length < 31;
+                date = addDays(date, 1)
+            ) {
+                days.push(scheduleDay(listing, date));
+            }
+            return json({
+                data: {
+                    activity_id: listing.id,
+                    currency: listing.currency,
+                    schedules: days,
+                },
+            });
+        }
+    }
+}
+
+/**
+ * Answers a request the way the Ithaka backend would. `path` is relative to
+ * the API root, e.g. `/activities/ai-tool`.
+ */
+export function handleMockRequest(path: string, params: URLSearchParams) {
+    switch (path.replace(/\/+$/, "")) {
+        case "/destinations":
+            return json({ data: destinations });
+        case "/categories":
+            return json({ data: categories });
+        case "/pages/faq":
+            return json({ data: { page_contents: faqPage } });
+        case "/pages/privacy_policy":
+            return json({ data: { page_contents: privacyPolicyPage } });
+        case "/activities":
+        case "/activities/ai-tool":
+            return json({ data: paginate(filterListings(params), params) });
+        default:
+            return activityRequest(path.replace(/\/+$/, ""), params);
+    }
+}
+
+/**
+ * A `fetch` replacement that serves fixtures in-process, so fixture mode
+ * needs no running server.
+ */
+export const mockFetch: typeof fetch = async (input, init) => {
+    init?.signal?.throwIfAborted();
+    const url = new URL(
+        typeof input === "string" || input instanceof URL ? input : input.url
+    );
+    return handleMockRequest(url.pathname, url.searchParams);
+};
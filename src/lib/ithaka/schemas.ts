@@ -0,0 +1,122 @@
+import { z } from "zod";
+
+const id = z.union([z.number(), z.string()]);
+// Prices and ratings arrive as numbers or numeric strings depending on the endpoint.
+const numeric = z.union([z.number(), z.string()]).nullish();
+
+export const destinationSchema = z
+    .object({
+        id: z.number(),
+        name: z.string(),
+        // Arabic name, where the backend has one.
+        name_ar: z.string().nullish(),
+        slug: z.string().nullish(),
+    })
+    .passthrough();
+
+export const categorySchema = z
+    .object({
+        id: z.number(),
+        name: z.string(),
+        name_ar: z.string().nullish(),
+        slug: z.string().nullish(),
+        parent_id: z.number().nullish(),
+    })
+    .passthrough();
+
+export const listingSchema = z
+    .object({
+        id,
+        title: z.string(),
+        slug: z.string().nullish(),
+        price: numeric,
+        currency: z.string().nullish(),
+        duration: z.union([z.string(), z.number()]).nullish(),
+        rating: numeric,
+        reviews_count: numeric,
+    })
+    .passthrough();
+
+export const paginatedListingsSchema = z
+    .object({
+        listings: z.array(listingSchema),
+        total: z.number().nullish(),
+        current_page: z.number().nullish(),
+        last_page: z.number().nullish(),
+        per_page: z.number().nullish(),
+    })
+    .passthrough();
+
+export const timeSlotSchema = z
+    .object({
+        start_time: z.string(),
+        end_time: z.string().nullish(),
+        total_slots: z.number().nullish(),
+        remaining_slots: z.number(),
+        price: numeric,
+    })
+    .passthrough();
+
+export const scheduleDaySchema = z
+    .object({
+        date: z.string(),
+        available: z.boolean(),
+        slots: z.array(timeSlotSchema),
+    })
+    .passthrough();
+
+export const listingScheduleSchema = z
+    .object({
+        activity_id: id,
+        currency: z.string().nullish(),
+        schedules: z.array(scheduleDaySchema),
+    })
+    .passthrough();
+
+export const availabilitySchema = scheduleDaySchema
+    .extend({
+        activity_id: id,
+        currency: z.string().nullish(),
+    })
+    .passthrough();
+
+export const promotionSchema = z
+    .object({
+        id,
+        title: z.string(),
+        discount_percent: numeric,
+        discount_amount: numeric,
+        code: z.string().nullish(),
+        valid_from: z.string().nullish(),
+        valid_to: z.string().nullish(),
+    })
+    .passthrough();
+
+// `page_contents` is either an HTML string or a list of title/content records.
+export const pageContentsSchema = z.union([
+    z.string(),
+    z.array(z.record(z.unknown())),
+    z.record(z.unknown()),
+]);
+
+export const pageSchema = z
+    .object({
+        page_contents: pageContentsSchema,
+    })
+    .passthrough();
+
+/** Every Ithaka endpoint wraps its payload in `{ data: ... }`. */
+export function envelope<T extends z.ZodTypeAny>(data: T) {
+    return z.object({ data });
+}
+
+export type Destination = z.infer<typeof destinationSchema>;
+export type Category = z.infer<typeof categorySchema>;
+export type Listing = z.infer<typeof listingSchema>;
+export type PaginatedListings = z.infer<typeof paginatedListingsSchema>;
+export type PageContents = z.infer<typeof pageContentsSchema>;
+export type TimeSlot = z.infer<typeof timeSlotSchema>;
+export type ScheduleDay = z.infer<typeof scheduleDaySchema>;
+export type ListingSchedule = z.infer<typeof listingScheduleSchema>;
+export type Availability = z.infer<typeof availabilitySchema>;
+export type Promotion = z.infer<typeof promotionSchema>;
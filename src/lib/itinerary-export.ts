@@ -0,0 +1,249 @@
+import { backendCurrency } from "@/lib/currency";
+import { DEFAULT_LOCALE, textDirection, type Locale } from "@/lib/i18n";
+import {
+    dateForDay,
+    groupByDay,
+    type Itinerary,
+    type ItineraryItem,
+} from "@/lib/itinerary";
+import { formatPrice } from "@/lib/listings";
+
+function escapeIcsText(text: string) {
+    return text
+        .replace(/\\/g, "\\\\")
+        .replace(/;/g, "\\;")
+        .replace(/,/g, "\\,")
+        .replace(/\r?\n/g, "\\n");
+}
+
+// RFC 5545 caps content lines at 75 octets; longer ones continue on a line
+// starting with a space.
+function foldIcsLine(line: string) {
+    const bytes = new TextEncoder().encode(line);
+    if (bytes.length <= 75) return line;
+
+    const parts: string[] = [];
+    let current = "";
+    let currentBytes = 0;
+    for (const char of line) {
+        const size = new TextEncoder().encode(char).length;
+        const limit = parts.length === 0 ? 75 : 74;
+        if (currentBytes + size > limit) {
+            parts.push(current);
+            current = "";
+            currentBytes = 0;
+        }
+        current += char;
+        currentBytes += size;
+    }
+    parts.push(current);
+    return parts.join("\r\n ");
+}
+
+function icsDate(isoDate: string) {
+    return isoDate.replace(/-/g, "");
+}
+
+function icsTimestamp(date: Date) {
+    return date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+// Listing URLs come from the backend, but only web links belong in a page
+// or calendar, and a line break would start a new calendar property.
+function isWebUrl(url: string) {
+    return /^https?:\/\/[^\s\u0000-\u001f\u007f]+$/i.test(url);
+}
+
+function safeUrl(url: string) {
+    return isWebUrl(url) ? url : "#";
+}
+
+// Items without a currency were priced by the backend.
+function itemCurrency(item: ItineraryItem) {
+    return item.currency ?? backendCurrency();
+}
+
+function describeItem(item: ItineraryItem) {
+    return [
+        item.price !== undefined
+            ? `Price: ${formatPrice(item.price, itemCurrency(item))}`
+            : undefined,
+        item.notes,
+        isWebUrl(item.url) ? `Book: ${item.url}` : undefined,
+    ]
+        .filter(Boolean)
+        .join("\n");
+}
+
+export class ItineraryNotDatedError extends Error {
+    constructor() {
+        super("Set a trip start date before exporting to a calendar");
+        this.name = "ItineraryNotDatedError";
+    }
+}
+
+/** One all-day event per activity, on the date its day falls on. */
+export function toIcs(itinerary: Itinerary, title = "Ithaka trip") {
+    if (!itinerary.startDate) {
+        throw new ItineraryNotDatedError();
+    }
+
+    const stamp = icsTimestamp(new Date());
+    const events = itinerary.items.flatMap((item) => {
+        const date = dateForDay(itinerary.startDate, item.day)!;
+        return [
+            "BEGIN:VEVENT",
+            `UID:${item.id}@ithaka.world`,
+            `DTSTAMP:${stamp}`,
+            `DTSTART;VALUE=DATE:${icsDate(date)}`,
+            `DTEND;VALUE=DATE:${icsDate(dateForDay(date, 2)!)}`,
+            `SUMMARY:${escapeIcsText(item.title)}`,
+            ...(item.destination
+                ? [`LOCATION:${escapeIcsText(item.destination)}`]
+                : []),
+            `DESCRIPTION:${escapeIcsText(describeItem(item))}`,
+            ...(isWebUrl(item.url) ? [`URL:${item.url}`] : []),
+            "END:VEVENT",
+        ];
+    });
+
+    return [
+        "BEGIN:VCALENDAR",
+        "VERSION:2.0",
+        "PRODID:-//Ithaka//AI Travel Assistant//EN",
+        "CALSCALE:GREGORIAN",
+        "METHOD:PUBLISH",
+        `X-WR-CALNAME:${escapeIcsText(title)}`,
+        ...events,
+        "END:VCALENDAR",
+    ]
+        .map(foldIcsLine)
+        .join("\r\n")
+        .concat("\r\n");
+}
+
+function escapeHtml(text: string) {
+    return text
+        .replace(/&/g, "&amp;")
+        .replace(/</g, "&lt;")
+        .replace(/>/g, "&gt;")
+        .replace(/"/g, "&quot;")
+        .replace(/'/g, "&#39;");
+}
+
+function totals(itinerary: Itinerary) {
+    const byCurrency = new Map<string, number>();
+    for (const item of itinerary.items) {
+        if (item.price === undefined) continue;
+        const currency = itemCurrency(item);
+        byCurrency.set(currency, (byCurrency.get(currency) ?? 0) + item.price);
+    }
+    return [...byCurrency.entries()].map(([currency, amount]) =>
+        formatPrice(amount, currency)
+    );
+}
+
+/**
+ * A self-contained, print-friendly HTML page for the plan. Browsers' "Save
+ * as PDF" turns it into the PDF summary, so no PDF library is needed.
+ */
+export function toHtml(
+    itinerary: Itinerary,
+    {
+        title = "Your Ithaka trip",
+        calendarUrl,
+        locale = DEFAULT_LOCALE,
+    }: { title?: string; calendarUrl?: string; locale?: Locale } = {}
+) {
+    const days = groupByDay(itinerary)
+        .map(
+            ({ day, date, destinations, items }) => `
+    <section>
+      <h2>Day ${day}${date ? ` <small>${escapeHtml(date)}</small>` : ""}</h2>
+      ${destinations.length ? `<p class="muted">${escapeHtml(destinations.join(", "))}</p>` : ""}
+      <table>
+        <tbody>
+          ${items
+              .map(
+                  (item) => `
+          <tr>
+            <td>
+              <strong>${escapeHtml(item.title)}</strong>
+              ${item.notes ? `<div class="muted">${escapeHtml(item.notes)}</div>` : ""}
+            </td>
+            <td class="price">${item.price !== undefined ? escapeHtml(formatPrice(item.price, itemCurrency(item))) : "&ndash;"}</td>
+            <td><a href="${escapeHtml(safeUrl(item.url))}">Book</a></td>
+          </tr>`
+              )
+              .join("")}
+        </tbody>
+      </table>
+    </section>`
+        )
+        .join("");
+
+    const total = totals(itinerary);
+
+    return `<!DOCTYPE html>
+<html lang="${locale}" dir="${textDirection(locale)}">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <meta name="robots" content="noindex">
+  <title>${escapeHtml(title)}</title>
+  <style>
+    body { font-family: system-ui, sans-serif; max-width: 720px; margin: 2rem auto; padding: 0 1rem; color: #1f2937; }
+    h1 { color: #4f46e5; }
+    h2 { margin-bottom: 0.25rem; }
+    small, .muted { color: #6b7280; font-weight: normal; }
+    table { width: 100%; border-collapse: collapse; margin-bottom: 1rem; }
+    td { padding: 0.5rem; border-bottom: 1px solid #e5e7eb; vertical-align: top; }
+    .price { white-space: nowrap; text-align: end; }
+    .actions > * { margin-right: 1rem; }
+    @media print { .actions { display: none; } a { color: inherit; } }
+  </style>
+</head>
+<body>
+  <h1>${escapeHtml(title)}</h1>
+  <p class="actions">
+    <button type="button" onclick="window.print()">Print or save as PDF</button>
+    ${calendarUrl && itinerary.startDate ? `<a href="${escapeHtml(calendarUrl)}">Add to calendar</a>` : ""}
+  </p>
+  ${days || "<p>This trip plan is empty.</p>"}
+  ${total.length ? `<p><strong>Total:</strong> ${escapeHtml(total.join(" + "))}</p>` : ""}
+  <p class="muted">Prices as listed on Ithaka when this plan was exported.</p>
+</body>
+</html>
+`;
+}
+
+/** Builds the download/preview response shared by the export and share routes. */
+export function exportResponse(
+    itinerary: Itinerary,
+    format: string | null,
+    options: {
+        title: string;
+        calendarUrl?: string;
+        filename: string;
+        locale?: Locale;
+    }
+) {
+    if (format === "ics") {
+        try {
+            return new Response(toIcs(itinerary, options.title), {
+                headers: {
+                    "Content-Type": "text/calendar; charset=utf-8",
+                    "Content-Disposition": `attachment; filename="${options.filename}.ics"`,
+                },
+            });
+        } catch (error) {
+            if (error instanceof ItineraryNotDatedError) {
+                return Response.json({ error: error.message }, { status: 409 });
+            }
+            throw error;
+        }
+    }
+    return new Response(toHtml(itinerary, options), {
+        headers: { "Content-Type": "text/html; charset=utf-8" },
+    });
+}
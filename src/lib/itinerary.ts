@@ -0,0 +1,241 @@
+import { generateId } from "ai";
+import { z } from "zod";
+import type { ListingLookup, ListingSummary } from "@/lib/listings";
+
+export const itineraryItemSchema = z.object({
+    id: z.string(),
+    listingId: z.union([z.number(), z.string()]),
+    title: z.string(),
+    url: z.string(),
+    day: z.number().int().min(1),
+    price: z.number().optional(),
+    currency: z.string().optional(),
+    destination: z.string().optional(),
+    imageUrl: z.string().optional(),
+    notes: z.string().optional(),
+});
+
+export const itinerarySchema = z.object({
+    // ISO date of day 1. Without it the plan is relative ("Day 1, Day 2").
+    startDate: z.string().date().optional(),
+    items: z.array(itineraryItemSchema),
+});
+
+/**
+ * What the itinerary panel may change: the start date and each item's day,
+ * order and notes. Listing details are never taken from the client.
+ */
+export const itineraryEditSchema = z.object({
+    startDate: z.string().date().optional(),
+    items: z.array(
+        itineraryItemSchema.pick({
+            id: true,
+            listingId: true,
+            day: true,
+            notes: true,
+        })
+    ),
+});
+
+export type ItineraryItem = z.infer<typeof itineraryItemSchema>;
+export type Itinerary = z.infer<typeof itinerarySchema>;
+export type ItineraryEdit = z.infer<typeof itineraryEditSchema>;
+
+export interface ItineraryDay {
+    day: number;
+    date?: string;
+    destinations: string[];
+    items: ItineraryItem[];
+}
+
+export function emptyItinerary(): Itinerary {
+    return { items: [] };
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function dateForDay(startDate: string | undefined, day: number) {
+    if (!startDate) return undefined;
+    const date = new Date(`${startDate}T00:00:00Z`);
+    return new Date(date.getTime() + (day - 1) * DAY_MS)
+        .toISOString()
+        .slice(0, 10);
+}
+
+function daysBetween(from: string, to: string) {
+    return Math.round(
+        (Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) /
+            DAY_MS
+    );
+}
+
+/**
+ * Resolves where a new item goes. An explicit date wins over a day number;
+ * the first dated item anchors the trip's start date, and a date before the
+ * current start shifts the whole plan so day numbers stay >= 1.
+ */
+function placeOnDay(
+    itinerary: Itinerary,
+    { day, date }: { day?: number; date?: string }
+): { itinerary: Itinerary; day: number } {
+    const lastDay = Math.max(1, ...itinerary.items.map((item) => item.day));
+    if (!date) {
+        return { itinerary, day: day ?? lastDay };
+    }
+    if (!itinerary.startDate) {
+        const targetDay = day ?? 1;
+        return {
+            itinerary: {
+                ...itinerary,
+                startDate: dateForDay(date, 2 - targetDay),
+            },
+            day: targetDay,
+        };
+    }
+    const offset = daysBetween(itinerary.startDate, date);
+    if (offset >= 0) {
+        return { itinerary, day: offset + 1 };
+    }
+    return {
+        itinerary: {
+            startDate: date,
+            items: itinerary.items.map((item) => ({
+                ...item,
+                day: item.day - offset,
+            })),
+        },
+        day: 1,
+    };
+}
+
+function listingItem(
+    id: string,
+    listing: ListingSummary,
+    { day, notes }: { day: number; notes?: string }
+): ItineraryItem {
+    return {
+        id,
+        listingId: listing.id,
+        title: listing.title,
+        url: listing.url,
+        day,
+        price: listing.price,
+        currency: listing.currency,
+        destination: listing.destination,
+        imageUrl: listing.imageUrl,
+        notes,
+    };
+}
+
+export function addItem(
+    itinerary: Itinerary,
+    listing: ListingSummary,
+    options: { day?: number; date?: string; notes?: string } = {}
+) {
+    const placed = placeOnDay(itinerary, options);
+    const item = listingItem(generateId(), listing, {
+        day: placed.day,
+        notes: options.notes,
+    });
+    return {
+        itinerary: {
+            ...placed.itinerary,
+            items: [...placed.itinerary.items, item],
+        },
+        item,
+    };
+}
+
+/**
+ * Applies the panel's edit to the saved plan. Items keep their stored
+ * listing details; new ones (added from a listing card) get theirs from
+ * the listings this chat has shown, and are dropped if it showed none.
+ */
+export function applyEdit(
+    saved: Itinerary,
+    edit: ItineraryEdit,
+    listings: ListingLookup
+): Itinerary {
+    const items = edit.items.flatMap(({ id, listingId, day, notes }) => {
+        const existing = saved.items.find((item) => item.id === id);
+        if (existing) return [{ ...existing, day, notes }];
+        const listing = listings.find(listingId);
+        return listing ? [listingItem(id, listing, { day, notes })] : [];
+    });
+    return { startDate: edit.startDate, items };
+}
+
+/** Removes by item ID, or every item for a listing ID. */
+export function removeItem(itinerary: Itinerary, id: string | number) {
+    return {
+        ...itinerary,
+        items: itinerary.items.filter(
+            (item) => item.id !== id && String(item.listingId) !== String(id)
+        ),
+    };
+}
+
+/**
+ * Moves an item to `day` (defaults to its current day) at `position`
+ * within that day (0-based, defaults to the end).
+ */
+export function moveItem(
+    itinerary: Itinerary,
+    itemId: string,
+    { day, position }: { day?: number; position?: number }
+) {
+    const item = itinerary.items.find((candidate) => candidate.id === itemId);
+    if (!item) {
+        return itinerary;
+    }
+    const moved = { ...item, day: day ?? item.day };
+    const rest = itinerary.items.filter((candidate) => candidate.id !== itemId);
+    const sameDay = rest.filter((candidate) => candidate.day === moved.day);
+    const anchor = sameDay[position ?? sameDay.length];
+    const index = anchor ? rest.indexOf(anchor) : rest.length;
+    return {
+        ...itinerary,
+        items: [...rest.slice(0, index), moved, ...rest.slice(index)],
+    };
+}
+
+export function groupByDay(itinerary: Itinerary): ItineraryDay[] {
+    const days = new Map<number, ItineraryItem[]>();
+    for (const item of itinerary.items) {
+        days.set(item.day, [...(days.get(item.day) ?? []), item]);
+    }
+    return [...days.entries()]
+        .sort(([a], [b]) => a - b)
+        .map(([day, items]) => ({
+            day,
+            date: dateForDay(itinerary.startDate, day),
+            destinations: [
+                ...new Set(
+                    items
+                        .map((item) => item.destination)
+                        .filter((name): name is string => Boolean(name))
+                ),
+            ],
+            items,
+        }));
+}
+
+/** A compact plain-text view of the plan for the system prompt. */
+export function describeItinerary(itinerary: Itinerary) {
+    if (itinerary.items.length === 0) {
+        return "The itinerary is empty.";
+    }
+    return groupByDay(itinerary)
+        .map(({ day, date, destinations, items }) =>
+            [
+                `Day ${day}${date ? ` (${date})` : ""}${
+                    destinations.length ? ` - ${destinations.join(", ")}` : ""
+                }:`,
+                ...items.map(
+                    (item) =>
+                        `  - [${item.id}] ${item.title} (listing ${item.listingId})`
+                ),
+            ].join("\n")
+        )
+        .join("\n");
+}
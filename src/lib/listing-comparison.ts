@@ -0,0 +1,166 @@
+import { backendCurrency } from "@/lib/currency";
+import { normalizeListing } from "@/lib/listings";
+
+export interface ComparedListing {
+    id: number | string;
+    title: string;
+    url: string;
+    imageUrl?: string;
+    currency: string;
+    pricePerPerson?: number;
+    durationText?: string;
+    durationHours?: number;
+    // Price per person divided by duration, for "better value" questions.
+    pricePerHour?: number;
+    rating?: number;
+    reviewsCount?: number;
+    inclusions: string[];
+    cancellationPolicy?: string;
+}
+
+export interface ListingComparison {
+    listings: ComparedListing[];
+    // Listing IDs that come out on top for each measure. Prices are only
+    // ranked when every listing uses the same currency.
+    best: {
+        cheapest?: number | string;
+        bestValue?: number | string;
+        highestRated?: number | string;
+        mostReviewed?: number | string;
+        shortest?: number | string;
+    };
+    mixedCurrencies: boolean;
+}
+
+type RawRecord = Record<string, unknown>;
+
+const UNIT_HOURS: Record<string, number> = {
+    min: 1 / 60,
+    minute: 1 / 60,
+    hr: 1,
+    hour: 1,
+    day: 24,
+    night: 24,
+};
+
+/** "4 hours", "90 minutes", "2 days", "1.5 hrs" to hours; numbers are hours. */
+export function parseDurationHours(value: unknown) {
+    if (typeof value === "number" && Number.isFinite(value)) return value;
+    if (typeof value !== "string") return undefined;
+
+    const match = value
+        .toLowerCase()
+        .match(/(\d+(?:\.\d+)?)\s*(min|minute|hr|hour|day|night)s?\b/);
+    if (!match) return undefined;
+    return Number(match[1]) * UNIT_HOURS[match[2]];
+}
+
+function toNumber(value: unknown) {
+    const number = typeof value === "string" ? Number(value) : value;
+    return typeof number === "number" && Number.isFinite(number)
+        ? number
+        : undefined;
+}
+
+function stringList(value: unknown): string[] {
+    if (Array.isArray(value)) {
+        return value.flatMap((item) =>
+            typeof item === "string"
+                ? [item]
+                : typeof item === "object" && item !== null
+                  ? stringList(
+                        (item as RawRecord).name ?? (item as RawRecord).title
+                    )
+                  : []
+        );
+    }
+    if (typeof value === "string") {
+        return value
+            .split(/\r?\n|;|•/)
+            .map((item) => item.replace(/^[-*\s]+/, "").trim())
+            .filter(Boolean);
+    }
+    return [];
+}
+
+// Group prices are spread over the group so every column is per person.
+function pricePerPerson(raw: RawRecord, price: number | undefined) {
+    if (price === undefined) return undefined;
+    const groupSize = toNumber(raw.group_size ?? raw.max_group_size);
+    return raw.price_type === "per_group" && groupSize
+        ? Math.round((price / groupSize) * 100) / 100
+        : price;
+}
+
+export function compareListing(raw: RawRecord): ComparedListing {
+    const summary = normalizeListing(raw);
+    const price = pricePerPerson(raw, summary.price);
+    const durationHours = parseDurationHours(raw.duration);
+    const inclusions = stringList(
+        raw.inclusions ?? raw.includes ?? raw.included ?? raw.whats_included
+    );
+    const cancellationPolicy =
+        typeof raw.cancellation_policy === "string"
+            ? raw.cancellation_policy
+            : undefined;
+
+    return {
+        id: summary.id,
+        title: summary.title,
+        url: summary.url,
+        imageUrl: summary.imageUrl,
+        currency: summary.currency ?? backendCurrency(),
+        pricePerPerson: price,
+        durationText: summary.duration,
+        durationHours,
+        pricePerHour:
+            price !== undefined && durationHours
+                ? Math.round((price / durationHours) * 100) / 100
+                : undefined,
+        rating: summary.rating,
+        reviewsCount: summary.reviewsCount,
+        inclusions,
+        cancellationPolicy,
+    };
+}
+
+function bestBy(
+    listings: ComparedListing[],
+    value: (listing: ComparedListing) => number | undefined,
+    direction: "min" | "max"
+) {
+    let best: ComparedListing | undefined;
+    let bestValue: number | undefined;
+    for (const listing of listings) {
+        const current = value(listing);
+        if (current === undefined) continue;
+        if (
+            bestValue === undefined ||
+            (direction === "min" ? current < bestValue : current > bestValue)
+        ) {
+            best = listing;
+            bestValue = current;
+        }
+    }
+    return best?.id;
+}
+
+export function compareListings(raws: RawRecord[]): ListingComparison {
+    const listings = raws.map(compareListing);
+    const mixedCurrencies =
+        new Set(listings.map((listing) => listing.currency)).size > 1;
+
+    return {
+        listings,
+        best: {
+            ...(!mixedCurrencies && {
+                cheapest: bestBy(listings, (l) => l.pricePerPerson, "min"),
+                bestValue: bestBy(listings, (l) => l.pricePerHour, "min"),
+            }),
+            highestRated: bestBy(listings, (l) => l.rating, "max"),
+            mostReviewed: bestBy(listings, (l) => l.reviewsCount, "max"),
+            shortest: bestBy(listings, (l) => l.durationHours, "min"),
+        },
+        mixedCurrencies,
+    };
+}
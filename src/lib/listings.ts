@@ -0,0 +1,254 @@
+import type { Message } from "ai";
+import { DEFAULT_LOCALE, type Locale } from "@/lib/i18n";
+
+export const ITHAKA_SITE_URL = "https://ithaka.world";
+
+export interface ListingSummary {
+    id: number | string;
+    title: string;
+    url: string;
+    imageUrl?: string;
+    price?: number;
+    currency?: string;
+    // The price in the user's chosen currency, converted by the server when
+    // the search ran.
+    userPrice?: { amount: number; currency: string };
+    duration?: string;
+    rating?: number;
+    reviewsCount?: number;
+    destination?: string;
+}
+
+type RawRecord = Record<string, unknown>;
+
+function isRecord(value: unknown): value is RawRecord {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// Translated text comes as `title_ar` next to `title`, or as `{ en, ar }`;
+// outside English those are tried first.
+function firstString(
+    record: RawRecord,
+    keys: string[],
+    locale: Locale = DEFAULT_LOCALE
+): string | undefined {
+    const localized =
+        locale === DEFAULT_LOCALE
+            ? keys
+            : keys.flatMap((key) => [`${key}_${locale}`, key]);
+    for (const key of localized) {
+        const value = record[key];
+        if (typeof value === "string" && value.trim()) return value;
+        if (isRecord(value)) {
+            const nested = firstString(
+                value,
+                locale === DEFAULT_LOCALE
+                    ? ["name", "title", "url", "en"]
+                    : [locale, "name", "title", "url", "en"],
+                locale
+            );
+            if (nested) return nested;
+        }
+    }
+    return undefined;
+}
+
+function firstNumber(record: RawRecord, keys: string[]) {
+    for (const key of keys) {
+        const value = record[key];
+        const number =
+            typeof value === "string" ? Number.parseFloat(value) : value;
+        if (typeof number === "number" && Number.isFinite(number)) {
+            return number;
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Pulls the listing array out of a `searchListings` tool result. The
+ * backend nests it differently across endpoints, so every known shape is
+ * accepted and anything else yields an empty list.
+ */
+export function extractRawListings(result: unknown): RawRecord[] {
+    if (Array.isArray(result)) {
+        return result.filter(isRecord);
+    }
+    if (!isRecord(result)) {
+        return [];
+    }
+    // A single record, e.g. from getListingDetails.
+    if (isRecord(result.listing)) {
+        return [result.listing];
+    }
+    for (const key of ["listings", "data", "activities", "items"]) {
+        const nested = extractRawListings(result[key]);
+        if (nested.length > 0) return nested;
+    }
+    return [];
+}
+
+function firstImage(raw: RawRecord) {
+    const image = firstString(raw, [
+        "image",
+        "imageUrl",
+        "cover_image",
+        "featured_image",
+        "thumbnail",
+    ]);
+    if (image || !Array.isArray(raw.images)) return image;
+
+    const [first] = raw.images as unknown[];
+    if (typeof first === "string") return first;
+    return isRecord(first)
+        ? firstString(first, ["url", "path", "src"])
+        : undefined;
+}
+
+function userPrice(value: unknown) {
+    if (!isRecord(value)) return undefined;
+    const { amount, currency } = value;
+    return typeof amount === "number" && typeof currency === "string"
+        ? { amount, currency }
+        : undefined;
+}
+
+export function normalizeListing(
+    raw: RawRecord,
+    locale: Locale = DEFAULT_LOCALE
+): ListingSummary {
+    const id = (raw.id as number | string | undefined) ?? "";
+    const slug = firstString(raw, ["slug"]);
+
+    return {
+        id,
+        title:
+            firstString(raw, ["title", "name"], locale) ??
+            "Untitled experience",
+        url:
+            firstString(raw, ["url", "link", "booking_url"]) ??
+            `${ITHAKA_SITE_URL}/activities/${slug ?? id}`,
+        imageUrl: firstImage(raw),
+        price: firstNumber(raw, [
+            "price",
+            "discounted_price",
+            "min_price",
+            "starting_price",
+            "pricePerPerson",
+        ]),
+        currency: firstString(raw, ["currency", "currency_code"]),
+        userPrice: userPrice(raw.userPrice),
+        duration: firstString(raw, [
+            "duration",
+            "duration_text",
+            "durationText",
+        ]),
+        rating: firstNumber(raw, ["rating", "average_rating", "rate"]),
+        reviewsCount: firstNumber(raw, [
+            "reviews_count",
+            "reviewsCount",
+            "reviews",
+            "rates_count",
+        ]),
+        destination: firstString(
+            raw,
+            ["destination", "destination_name", "city"],
+            locale
+        ),
+    };
+}
+
+export function extractListings(
+    result: unknown,
+    locale: Locale = DEFAULT_LOCALE
+) {
+    return extractRawListings(result).map((raw) =>
+        normalizeListing(raw, locale)
+    );
+}
+
+/**
+ * The fields search results need for the answer and the listing cards;
+ * everything else is left to getListingDetails to keep pages small.
+ */
+export function compactListing(
+    raw: RawRecord,
+    locale: Locale = DEFAULT_LOCALE
+) {
+    const {
+        id,
+        title,
+        url,
+        imageUrl,
+        price,
+        currency,
+        duration,
+        rating,
+        reviewsCount,
+        destination,
+    } = normalizeListing(raw, locale);
+    return {
+        id,
+        title,
+        url,
+        imageUrl,
+        price,
+        currency,
+        duration,
+        rating,
+        reviewsCount,
+        destination,
+    };
+}
+
+export function formatPrice(price: number, currency = "USD") {
+    try {
+        return new Intl.NumberFormat("en-US", {
+            style: "currency",
+            currency,
+            maximumFractionDigits: 2,
+        }).format(price);
+    } catch {
+        return `${price} ${currency}`;
+    }
+}
+
+// Tools whose results carry listing records.
+export const LISTING_TOOL_NAMES = new Set([
+    "searchListings",
+    "getListingDetails",
+    "compareListings",
+]);
+
+/**
+ * Remembers every listing the assistant has seen in this conversation so
+ * tools can refer to listings by ID without trusting model-supplied data.
+ */
+export class ListingLookup {
+    private readonly byId = new Map<string, ListingSummary>();
+
+    static fromMessages(messages: Message[]) {
+        const lookup = new ListingLookup();
+        for (const message of messages) {
+            for (const invocation of message.toolInvocations ?? []) {
+                if (
+                    invocation.state === "result" &&
+                    LISTING_TOOL_NAMES.has(invocation.toolName)
+                ) {
+                    lookup.remember(invocation.result);
+                }
+            }
+        }
+        return lookup;
+    }
+
+    remember(result: unknown) {
+        for (const listing of extractListings(result)) {
+            this.byId.set(String(listing.id), listing);
+        }
+    }
+
+    find(id: number | string) {
+        return this.byId.get(String(id));
+    }
+}
@@ -0,0 +1,233 @@
+import type { LanguageModel } from "ai";
+import type { CallOptions, StreamPart } from "@/lib/llm/types";
+import { logger } from "@/lib/telemetry/logger";
+
+export class ModelTimeoutError extends Error {
+    constructor(modelId: string, timeoutMs: number) {
+        super(`Model ${modelId} did not respond within ${timeoutMs}ms`);
+        this.name = "ModelTimeoutError";
+    }
+}
+
+function withTimeout<T>(
+    promise: PromiseLike<T>,
+    timeoutMs: number,
+    modelId: string
+) {
+    let timer: ReturnType<typeof setTimeout>;
+    return Promise.race([
+        Promise.resolve(promise),
+        new Promise<never>((_, reject) => {
+            timer = setTimeout(
+                () => reject(new ModelTimeoutError(modelId, timeoutMs)),
+                timeoutMs
+            );
+        }),
+    ]).finally(() => clearTimeout(timer));
+}
+
+function describe(model: LanguageModel) {
+    return `${model.provider}:${model.modelId}`;
+}
+
+// One model call's own abort signal: aborted with the caller's, and on its
+// own when the call is given up on, so an abandoned request stops running.
+// `release` detaches it from the caller's signal once the call is over.
+function chainedAbort(signal: CallOptions["abortSignal"]) {
+    const controller = new AbortController();
+    const follow = () => controller.abort(signal?.reason);
+    if (signal?.aborted) {
+        follow();
+    } else {
+        signal?.addEventListener("abort", follow, { once: true });
+    }
+    return {
+        signal: controller.signal,
+        abort: () => controller.abort(),
+        release: () => signal?.removeEventListener("abort", follow),
+    };
+}
+
+// The fallback picks up where the primary stopped: the text already sent
+// is given to it as the start of its answer.
+function continuation(
+    options: CallOptions,
+    text: string,
+    signal: AbortSignal
+): CallOptions {
+    return {
+        ...options,
+        abortSignal: signal,
+        prompt: [
+            ...options.prompt,
+            { role: "assistant", content: [{ type: "text", text }] },
+        ],
+    };
+}
+
+/**
+ * Wraps `primary` so that a failing or stalled call is retried on
+ * `fallback`. Before the primary's first content (connection errors,
+ * first-token timeouts, an early error part), the call simply moves to the
+ * fallback: the stream is only handed over once content arrives, so the
+ * result, `rawCall` and response metadata are those of the model that
+ * answered. When the primary fails or stalls mid-answer, the fallback
+ * continues from the text sent so far. That is not possible once a tool
+ * call has been streamed, so those failures surface as stream errors.
+ * `streamText` calls the model once per step, so a later step can still
+ * land on the fallback.
+ */
+export function withFallback(
+    primary: LanguageModel,
+    fallback: LanguageModel,
+    { timeoutMs }: { timeoutMs: number }
+): LanguageModel {
+    function logSwitch(error: unknown) {
+        logger.warn("Model failed, falling back", {
+            model: describe(primary),
+            fallback: describe(fallback),
+            error,
+        });
+    }
+
+    return {
+        specificationVersion: "v1",
+        provider: primary.provider,
+        modelId: primary.modelId,
+        defaultObjectGenerationMode: primary.defaultObjectGenerationMode,
+        supportsImageUrls: primary.supportsImageUrls,
+        supportsStructuredOutputs: primary.supportsStructuredOutputs,
+
+        async doGenerate(options) {
+            const attempt = chainedAbort(options.abortSignal);
+            try {
+                return await withTimeout(
+                    primary.doGenerate({
+                        ...options,
+                        abortSignal: attempt.signal,
+                    }),
+                    timeoutMs,
+                    primary.modelId
+                );
+            } catch (error) {
+                attempt.abort();
+                if (options.abortSignal?.aborted) throw error;
+                logSwitch(error);
+                return fallback.doGenerate(options);
+            } finally {
+                attempt.release();
+            }
+        },
+
+        async doStream(options) {
+            const attempt = chainedAbort(options.abortSignal);
+            let reader: ReadableStreamDefaultReader<StreamPart> | undefined;
+            // Parts read before the first content, replayed to the caller.
+            const head: StreamPart[] = [];
+            let result;
+            try {
+                result = await withTimeout(
+                    primary.doStream({
+                        ...options,
+                        abortSignal: attempt.signal,
+                    }),
+                    timeoutMs,
+                    primary.modelId
+                );
+                reader = result.stream.getReader();
+                for (;;) {
+                    const { done, value } = await withTimeout(
+                        reader.read(),
+                        timeoutMs,
+                        primary.modelId
+                    );
+                    if (done) break;
+                    if (value.type === "error") throw value.error;
+                    head.push(value);
+                    if (value.type !== "response-metadata") break;
+                }
+            } catch (error) {
+                reader?.cancel().catch(() => {});
+                attempt.abort();
+                attempt.release();
+                if (options.abortSignal?.aborted) throw error;
+                logSwitch(error);
+                return fallback.doStream(options);
+            }
+
+            let current = { model: primary, reader, attempt };
+            // What the caller has been sent, and whether the fallback could
+            // still take over from it.
+            let text = "";
+            let textOnly = true;
+            const track = (part: StreamPart) => {
+                if (part.type === "text-delta") {
+                    text += part.textDelta;
+                } else if (part.type !== "response-metadata") {
+                    textOnly = false;
+                }
+            };
+            head.forEach(track);
+
+            const stream = new ReadableStream<StreamPart>({
+                start(controller) {
+                    head.forEach((part) => controller.enqueue(part));
+                },
+                async pull(controller) {
+                    for (;;) {
+                        try {
+                            const { done, value } = await withTimeout(
+                                current.reader.read(),
+                                timeoutMs,
+                                current.model.modelId
+                            );
+                            if (done) {
+                                current.attempt.release();
+                                controller.close();
+                                return;
+                            }
+                            if (value.type === "error") throw value.error;
+                            track(value);
+                            controller.enqueue(value);
+                            return;
+                        } catch (error) {
+                            current.reader.cancel().catch(() => {});
+                            current.attempt.abort();
+                            current.attempt.release();
+                            if (
+                                current.model === fallback ||
+                                !textOnly ||
+                                options.abortSignal?.aborted
+                            ) {
+                                controller.error(error);
+                                return;
+                            }
+                            logSwitch(error);
+                            const next = chainedAbort(options.abortSignal);
+                            try {
+                                const { stream } = await fallback.doStream(
+                                    continuation(options, text, next.signal)
+                                );
+                                current = {
+                                    model: fallback,
+                                    reader: stream.getReader(),
+                                    attempt: next,
+                                };
+                            } catch (fallbackError) {
+                                next.release();
+                                controller.error(fallbackError);
+                                return;
+                            }
+                        }
+                    }
+                },
+                cancel(reason) {
+                    current.attempt.release();
+                    return current.reader.cancel(reason);
+                },
+            });
+
+            return { ...result, stream };
+        },
+    };
+}
@@ -0,0 +1,158 @@
+import { createGoogleGenerativeAI } from "@ai-sdk/google";
+import { createOpenAI } from "@ai-sdk/openai";
+import type { LanguageModel } from "ai";
+import { withFallback } from "@/lib/llm/fallback-model";
+import { createScriptedModel } from "@/lib/llm/scripted-model";
+import { logger } from "@/lib/telemetry/logger";
+
+export class ModelConfigError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "ModelConfigError";
+    }
+}
+
+interface ProviderDefinition {
+    defaultModel: string;
+    // Env vars that must be set before the provider can be used.
+    requiredEnv: string[];
+    create: (modelId: string) => LanguageModel;
+}
+
+const providers = {
+    gemini: {
+        defaultModel: "gemini-2.0-flash-001",
+        requiredEnv: ["GOOGLE_GENERATIVE_AI_API_KEY"],
+        create: (modelId) => createGoogleGenerativeAI()(modelId),
+    },
+    openai: {
+        defaultModel: "gpt-4o-mini",
+        requiredEnv: ["OPENAI_API_KEY"],
+        create: (modelId) => createOpenAI({ compatibility: "strict" })(modelId),
+    },
+    "openai-compatible": {
+        defaultModel: "llama-3.1-8b-instruct",
+        requiredEnv: ["OPENAI_COMPATIBLE_BASE_URL"],
+        create: (modelId) =>
+            createOpenAI({
+                baseURL: process.env.OPENAI_COMPATIBLE_BASE_URL,
+                // Local servers such as Ollama accept any key.
+                apiKey: process.env.OPENAI_COMPATIBLE_API_KEY ?? "not-needed",
+                compatibility: "compatible",
+                name: "openai-compatible",
+            })(modelId),
+    },
+    mock: {
+        defaultModel: "scripted",
+        requiredEnv: [],
+        create: (modelId) => createScriptedModel(undefined, modelId),
+    },
+} satisfies Record<string, ProviderDefinition>;
+
+export type ProviderName = keyof typeof providers;
+
+export const PROVIDER_NAMES = Object.keys(providers) as ProviderName[];
+
+export interface ModelSpec {
+    provider: ProviderName;
+    modelId?: string;
+}
+
+function isProviderName(name: string): name is ProviderName {
+    return name in providers;
+}
+
+export function parseProviderName(name: string, envVar: string) {
+    if (!isProviderName(name)) {
+        throw new ModelConfigError(
+            `${envVar}="${name}" is not one of ${PROVIDER_NAMES.join(", ")}`
+        );
+    }
+    return name;
+}
+
+export function missingEnv(provider: ProviderName) {
+    const definition: ProviderDefinition = providers[provider];
+    return definition.requiredEnv.filter((name) => !process.env[name]);
+}
+
+export function createModel({ provider, modelId }: ModelSpec) {
+    const missing = missingEnv(provider);
+    if (missing.length > 0) {
+        throw new ModelConfigError(
+            `${provider} provider is not configured: set ${missing.join(", ")}`
+        );
+    }
+    const definition: ProviderDefinition = providers[provider];
+    return definition.create(modelId || definition.defaultModel);
+}
+
+const DEFAULT_TIMEOUT_MS = 20_000;
+
+let chatModelOverride: LanguageModel | undefined;
+
+/** Serves `model` instead of the env-configured one, e.g. in evals. */
+export function setChatModel(model: LanguageModel | undefined) {
+    chatModelOverride = model;
+}
+
+/**
+ * Builds the chat model from env:
+ * - `LLM_PROVIDER` / `LLM_MODEL` pick the primary model (default Gemini).
+ * - `LLM_FALLBACK_PROVIDER` / `LLM_FALLBACK_MODEL` add an optional
+ *   secondary, used when the primary errors or stalls for `LLM_TIMEOUT_MS`.
+ */
+export function getChatModel(env = process.env): LanguageModel {
+    if (chatModelOverride) return chatModelOverride;
+
+    const primary = createModel({
+        provider: parseProviderName(env.LLM_PROVIDER ?? "gemini", "LLM_PROVIDER"),
+        modelId: env.LLM_MODEL,
+    });
+
+    if (!env.LLM_FALLBACK_PROVIDER) {
+        return primary;
+    }
+
+    const fallbackProvider = parseProviderName(
+        env.LLM_FALLBACK_PROVIDER,
+        "LLM_FALLBACK_PROVIDER"
+    );
+    const missing = missingEnv(fallbackProvider);
+    if (missing.length > 0) {
+        logger.warn("Fallback provider disabled", {
+            provider: fallbackProvider,
+            missingEnv: missing,
+        });
+        return primary;
+    }
+
+    return withFallback(
+        primary,
+        createModel({
+            provider: fallbackProvider,
+            modelId: env.LLM_FALLBACK_MODEL,
+        }),
+        { timeoutMs: Number(env.LLM_TIMEOUT_MS) || DEFAULT_TIMEOUT_MS }
+    );
+}
+
+/**
+ * The small, fast model that classifies unclear messages before the chat
+ * model runs (`INTENT_MODEL_PROVIDER` / `INTENT_MODEL`). Optional: without
+ * it the router relies on its rules alone.
+ */
+export function getIntentModel(env = process.env): LanguageModel | undefined {
+    if (!env.INTENT_MODEL_PROVIDER) return undefined;
+
+    const provider = parseProviderName(
+        env.INTENT_MODEL_PROVIDER,
+        "INTENT_MODEL_PROVIDER"
+    );
+    const missing = missingEnv(provider);
+    if (missing.length > 0) {
+        logger.warn("Intent model disabled", { provider, missingEnv: missing });
+        return undefined;
+    }
+    return createModel({ provider, modelId: env.INTENT_MODEL });
+}
@@ -0,0 +1,123 @@
+import type { LanguageModel } from "ai";
+import type { CallOptions, StreamPart } from "@/lib/llm/types";
+
+export interface ScriptedToolCall {
+    toolName: string;
+    args: Record<string, unknown>;
+}
+
+export interface ScriptedTurn {
+    text?: string;
+    toolCalls?: ScriptedToolCall[];
+}
+
+/**
+ * Either a fixed list of turns played back in order (one per model call),
+ * or a function that picks the turn from the prompt it is given.
+ */
+export type Script = ScriptedTurn[] | ((options: CallOptions) => ScriptedTurn);
+
+function estimateTokens(text: string) {
+    return Math.ceil(text.length / 4);
+}
+
+function lastMessage(options: CallOptions) {
+    return options.prompt[options.prompt.length - 1];
+}
+
+/**
+ * The default local responder: acknowledges tool results and otherwise
+ * answers with a fixed line. Deterministic, so it is safe for tests and
+ * offline development.
+ */
+export const defaultScript: Script = (options) => {
+    const last = lastMessage(options);
+    if (last?.role === "tool") {
+        const names = last.content.map((part) => part.toolName).join(", ");
+        return { text: `Here is what I found using ${names}.` };
+    }
+    return {
+        text: "I'm Ithaka AI running in local mode. How can I help you plan your trip?",
+    };
+};
+
+export function createScriptedModel(
+    script: Script = defaultScript,
+    modelId = "scripted"
+): LanguageModel {
+    let callIndex = 0;
+
+    function nextTurn(options: CallOptions): ScriptedTurn {
+        callIndex += 1;
+        if (typeof script === "function") {
+            return script(options);
+        }
+        // Once the script runs out, the last turn repeats.
+        return script[Math.min(callIndex, script.length) - 1] ?? { text: "" };
+    }
+
+    function toolCalls(turn: ScriptedTurn) {
+        return (turn.toolCalls ?? []).map((call, index) => ({
+            toolCallType: "function" as const,
+            toolCallId: `call-${callIndex}-${index}`,
+            toolName: call.toolName,
+            args: JSON.stringify(call.args),
+        }));
+    }
+
+    function usage(options: CallOptions, turn: ScriptedTurn) {
+        return {
+            promptTokens: estimateTokens(JSON.stringify(options.prompt)),
+            completionTokens: estimateTokens(
+                (turn.text ?? "") + JSON.stringify(turn.toolCalls ?? [])
+            ),
+        };
+    }
+
+    return {
+        specificationVersion: "v1",
+        provider: "scripted",
+        modelId,
+        defaultObjectGenerationMode: "json",
+
+        async doGenerate(options) {
+            const turn = nextTurn(options);
+            const calls = toolCalls(turn);
+            return {
+                text: turn.text,
+                toolCalls: calls,
+                finishReason: calls.length > 0 ? "tool-calls" : "stop",
+                usage: usage(options, turn),
+                rawCall: { rawPrompt: options.prompt, rawSettings: {} },
+            };
+        },
+
+        async doStream(options) {
+            const turn = nextTurn(options);
+            const calls = toolCalls(turn);
+            const parts: StreamPart[] = [
+                { type: "response-metadata", modelId },
+                // Split on word boundaries so the UI sees a realistic stream.
+                ...(turn.text?.match(/\S+\s*/g) ?? []).map(
+                    (textDelta): StreamPart => ({ type: "text-delta", textDelta })
+                ),
+                ...calls.map((call): StreamPart => ({ type: "tool-call", ...call })),
+                {
+                    type: "finish",
+                    finishReason: calls.length > 0 ? "tool-calls" : "stop",
+                    usage: usage(options, turn),
+                },
+            ];
+
+            return {
+                stream: new ReadableStream<StreamPart>({
+                    start(controller) {
+                        parts.forEach((part) => controller.enqueue(part));
+                        controller.close();
+                    },
+                }),
+                rawCall: { rawPrompt: options.prompt, rawSettings: {} },
+            };
+        },
+    };
+}
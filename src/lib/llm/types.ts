@@ -0,0 +1,9 @@
+import type { LanguageModel } from "ai";
+
+// `ai` does not re-export the provider spec's call and stream types, so they
+// are derived from `LanguageModel` rather than importing a transitive package.
+export type CallOptions = Parameters<LanguageModel["doStream"]>[0];
+export type StreamResult = Awaited<ReturnType<LanguageModel["doStream"]>>;
+export type GenerateResult = Awaited<ReturnType<LanguageModel["doGenerate"]>>;
+export type StreamPart =
+    StreamResult["stream"] extends ReadableStream<infer Part> ? Part : never;
@@ -0,0 +1,65 @@
+import { getEntityResolver } from "@/lib/entity-resolver";
+import type { Category, Destination } from "@/lib/ithaka/schemas";
+
+/**
+ * What an embedding page says it is about, e.g. `{ destination: "Dahab" }`
+ * on a partner's Dahab guide. Names or IDs, as the host site knows them.
+ */
+export interface PageContextInput {
+    destination?: string | number;
+    category?: string | number;
+}
+
+/** The page context matched to the backend's reference data. */
+export interface PageContext {
+    destination?: Destination;
+    category?: Category;
+}
+
+// Host sites pass whatever they have; only exact names, aliases and IDs
+// are trusted, so a typo never steers every search on the page.
+const MIN_CONFIDENCE = 1;
+
+function resolve<T extends { id: number }>(
+    value: unknown,
+    entities: T[],
+    byName: (name: string) => { id: number; confidence: number }[]
+) {
+    // Embed attributes are always strings, so "6" is an ID too.
+    if (typeof value === "number" || /^\d+$/.test(String(value))) {
+        return entities.find(({ id }) => id === Number(value));
+    }
+    if (typeof value !== "string" || !value.trim()) return undefined;
+    const [best] = byName(value.trim().slice(0, 100));
+    return best && best.confidence >= MIN_CONFIDENCE
+        ? entities.find(({ id }) => id === best.id)
+        : undefined;
+}
+
+/**
+ * Reads the `context` field of a chat request. Anything that does not name
+ * a known destination or category is dropped.
+ */
+export function resolvePageContext(
+    value: unknown,
+    reference: { destinations: Destination[]; categories: Category[] }
+): PageContext {
+    if (typeof value !== "object" || value === null) return {};
+    const input = value as Record<string, unknown>;
+    const resolver = getEntityResolver(
+        reference.destinations,
+        reference.categories
+    );
+    return {
+        destination: resolve(
+            input.destination,
+            reference.destinations,
+            (name) => resolver.resolveDestination(name, 1).candidates
+        ),
+        category: resolve(
+            input.category,
+            reference.categories,
+            (name) => resolver.resolveCategory(name, 1).candidates
+        ),
+    };
+}
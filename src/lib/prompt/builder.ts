@@ -0,0 +1,69 @@
+import type { DateContext } from "@/lib/date-range";
+import type { Locale } from "@/lib/i18n";
+import type { Intent, Topic } from "@/lib/intent";
+import type { Category, Destination } from "@/lib/ithaka/schemas";
+import type { Itinerary } from "@/lib/itinerary";
+import type { PageContext } from "@/lib/page-context";
+
+/** Everything a section may need to render for the current turn. */
+export interface PromptContext {
+    intent: Intent;
+    locale: Locale;
+    dates: DateContext;
+    destinations: Destination[];
+    categories: Category[];
+    itinerary: Itinerary;
+    userCurrency?: string;
+    // Set when the chat is embedded on a page about a destination or category.
+    page: PageContext;
+}
+
+export interface PromptSection {
+    id: string;
+    // Bumped on every wording change, so a stamp identifies the exact text.
+    version: number;
+    // Intents the section is needed for; omitted means always included.
+    // Messages with an unknown intent get every section.
+    intents?: Topic[];
+    // An empty string leaves the section out for this turn.
+    render: (context: PromptContext) => string;
+}
+
+/** A named, ordered set of sections; the unit of rollbacks and A/B tests. */
+export interface PromptVariant {
+    name: string;
+    sections: PromptSection[];
+}
+
+export interface SystemPrompt {
+    text: string;
+    // e.g. "default@persona:1,data-sources:1,travel-rules:1,boundaries:1".
+    version: string;
+    sections: string[];
+}
+
+function isIncluded(section: PromptSection, intent: Intent) {
+    return (
+        !section.intents ||
+        intent === "unknown" ||
+        section.intents.some((topic) => topic === intent)
+    );
+}
+
+export function buildSystemPrompt(
+    variant: PromptVariant,
+    context: PromptContext
+): SystemPrompt {
+    const included = variant.sections
+        .filter((section) => isIncluded(section, context.intent))
+        .map((section) => ({ section, text: section.render(context).trim() }))
+        .filter(({ text }) => text !== "");
+    const stamps = included.map(
+        ({ section }) => `${section.id}:${section.version}`
+    );
+    return {
+        text: included.map(({ text }) => text).join("\n\n"),
+        version: `${variant.name}@${stamps.join(",")}`,
+        sections: included.map(({ section }) => section.id),
+    };
+}
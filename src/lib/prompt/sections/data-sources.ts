@@ -0,0 +1,30 @@
+import { describeDateRange } from "@/lib/date-range";
+import { describeItinerary } from "@/lib/itinerary";
+import type { PromptSection } from "@/lib/prompt/builder";
+
+// Reference data and per-turn facts: itinerary, reply language and today.
+export const dataSources: PromptSection = {
+    id: "data-sources",
+    version: 1,
+    render: ({
+        destinations,
+        categories,
+        itinerary,
+        locale,
+        dates,
+    }) => `
+<Data Sources>
+### **Ithaka Data Sources**:
+- **Destinations:** ${JSON.stringify(destinations)}
+- **Categories:** ${JSON.stringify(categories)}
+- **Privacy Policy:** retrieved on demand with **lookupPrivacySection**.
+- **FAQ:** retrieved on demand with **searchFaq**.
+- When I answer from the Privacy Policy or FAQ, I cite the section ID I used (e.g. **[privacy-8]**, **[faq-3]**).
+- **Current Trip Plan** (the user may also edit it by hand):
+${describeItinerary(itinerary)}
+- **Reply language:** ${locale === "ar" ? "Arabic" : "English"}. The user's latest message is in this language, so I answer in it even if earlier messages were in another.
+- In Arabic I write clear Modern Standard Arabic that Egyptian visitors find natural, use the Arabic destination and category names (**name_ar**) where they exist, and keep listing titles, prices, dates and links exactly as the tools return them.
+- **Today** is ${describeDateRange(dates.today, dates.today)} (${dates.today}) in the user's timezone, ${dates.timeZone}.
+</>
+`,
+};
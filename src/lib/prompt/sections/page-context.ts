@@ -0,0 +1,24 @@
+import type { PromptSection } from "@/lib/prompt/builder";
+
+// The page the chat is embedded on; only rendered for embedded chats.
+export const pageContext: PromptSection = {
+    id: "page-context",
+    version: 1,
+    intents: ["travel"],
+    render: ({ page: { destination, category } }) => {
+        if (!destination && !category) return "";
+        const about = [
+            destination &&
+                `the destination **${destination.name}** (ID ${destination.id})`,
+            category &&
+                `the category **${category.name}** (ID ${category.id})`,
+        ].filter(Boolean);
+        return `
+<Page Context>
+- The user is chatting from a page about ${about.join(" and ")}.
+- When they ask for activities without saying where or what kind, I assume ${about.join(" and ")} and say so in my answer.
+- If they name another destination or category, theirs always wins.
+</>
+`;
+    },
+};
@@ -0,0 +1,90 @@
+import { createHash } from "node:crypto";
+import type { PromptVariant } from "@/lib/prompt/builder";
+import { boundaries } from "@/lib/prompt/sections/boundaries";
+import { dataSources } from "@/lib/prompt/sections/data-sources";
+import { faqRules } from "@/lib/prompt/sections/faq-rules";
+import { pageContext } from "@/lib/prompt/sections/page-context";
+import { persona } from "@/lib/prompt/sections/persona";
+import { privacyRules } from "@/lib/prompt/sections/privacy-rules";
+import { travelRules } from "@/lib/prompt/sections/travel-rules";
+import { logger } from "@/lib/telemetry/logger";
+
+const DEFAULT_VARIANT = "default";
+
+/**
+ * Every prompt that can be served. To roll a section back, point a variant
+ * at the previous section object; to test a change, add a variant next to
+ * `default` and split traffic with `PROMPT_EXPERIMENT`.
+ */
+export const PROMPT_VARIANTS: Record<string, PromptVariant> = {
+    [DEFAULT_VARIANT]: {
+        name: DEFAULT_VARIANT,
+        sections: [
+            persona,
+            dataSources,
+            travelRules,
+            pageContext,
+            privacyRules,
+            faqRules,
+            boundaries,
+        ],
+    },
+};
+
+function knownVariant(name: string, envVar: string) {
+    const variant = PROMPT_VARIANTS[name];
+    if (!variant) {
+        logger.warn("Unknown prompt variant, using default", {
+            [envVar]: name,
+        });
+    }
+    return variant;
+}
+
+/** Parses `"default:90,shorter:10"` into weighted variant names. */
+function parseExperiment(value: string) {
+    return value
+        .split(",")
+        .map((part) => {
+            const [name, weight] = part.split(":").map((s) => s.trim());
+            return { name, weight: Number(weight) };
+        })
+        .filter(
+            ({ name, weight }) =>
+                Number.isFinite(weight) &&
+                weight > 0 &&
+                knownVariant(name, "PROMPT_EXPERIMENT")
+        );
+}
+
+// Stable per key, so a conversation keeps its variant across turns.
+function bucket(key: string, total: number) {
+    const hash = createHash("sha256").update(key).digest();
+    return (hash.readUInt32BE(0) / 0x1_0000_0000) * total;
+}
+
+/**
+ * Picks the prompt for a conversation:
+ * - `PROMPT_VARIANT` serves one variant to everyone (e.g. to roll back).
+ * - `PROMPT_EXPERIMENT` splits traffic by weight, keyed on `key` (the chat
+ *   ID, or the client IP for unsaved chats).
+ */
+export function selectPromptVariant(key: string, env = process.env) {
+    if (env.PROMPT_VARIANT) {
+        return (
+            knownVariant(env.PROMPT_VARIANT, "PROMPT_VARIANT") ??
+            PROMPT_VARIANTS[DEFAULT_VARIANT]
+        );
+    }
+
+    const arms = env.PROMPT_EXPERIMENT
+        ? parseExperiment(env.PROMPT_EXPERIMENT)
+        : [];
+    const total = arms.reduce((sum, { weight }) => sum + weight, 0);
+    let point = total > 0 ? bucket(key, total) : 0;
+    for (const { name, weight } of arms) {
+        if (point < weight) return PROMPT_VARIANTS[name];
+        point -= weight;
+    }
+    return PROMPT_VARIANTS[DEFAULT_VARIANT];
+}
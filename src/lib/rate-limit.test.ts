@@ -0,0 +1,61 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+    MemoryRateLimitStore,
+    RateLimitError,
+    clientIp,
+    enforceRateLimits,
+} from "@/lib/rate-limit";
+
+function request(headers: Record<string, string>) {
+    return new Request("http://localhost/api/chat", { headers });
+}
+
+describe("clientIp", () => {
+    const forwarded = request({
+        "x-forwarded-for": "6.6.6.6, 1.2.3.4, 10.0.0.1",
+        "x-real-ip": "9.9.9.9",
+    });
+
+    it("ignores proxy headers when no proxy is trusted", () => {
+        assert.equal(clientIp(forwarded, 0), undefined);
+    });
+
+    it("takes the address the trusted proxies received from", () => {
+        assert.equal(clientIp(forwarded, 1), "10.0.0.1");
+        assert.equal(clientIp(forwarded, 2), "1.2.3.4");
+    });
+
+    it("stops at the first entry when hops outnumber entries", () => {
+        assert.equal(clientIp(forwarded, 5), "6.6.6.6");
+    });
+
+    it("falls back to x-real-ip", () => {
+        const real = request({ "x-real-ip": " 9.9.9.9 " });
+        assert.equal(clientIp(real, 1), "9.9.9.9");
+        assert.equal(clientIp(request({}), 1), undefined);
+    });
+});
+
+describe("enforceRateLimits", () => {
+    const config = { capacity: 2, refillPerMinute: 1 };
+
+    it("refuses once a bucket is empty", async () => {
+        const store = new MemoryRateLimitStore();
+        const rules = [{ scope: "ip", key: "anonymous", config }];
+        await enforceRateLimits(store, rules);
+        await enforceRateLimits(store, rules);
+        await assert.rejects(enforceRateLimits(store, rules), RateLimitError);
+    });
+
+    it("takes nothing from other buckets when one refuses", async () => {
+        const store = new MemoryRateLimitStore();
+        const session = { scope: "session", key: "a", config };
+        const ip = { scope: "ip", key: "1.2.3.4", config };
+        await enforceRateLimits(store, [ip]);
+        await enforceRateLimits(store, [ip]);
+        await assert.rejects(enforceRateLimits(store, [session, ip]));
+        const left = await store.peek("session:a", config);
+        assert.equal(left.remaining, 1);
+    });
+});
@@ -0,0 +1,163 @@
+export interface BucketConfig {
+    // Maximum burst size.
+    capacity: number;
+    // Tokens added back per minute.
+    refillPerMinute: number;
+}
+
+export interface TakeResult {
+    allowed: boolean;
+    remaining: number;
+    // How long until a token is available again (0 when allowed).
+    retryAfterMs: number;
+}
+
+/**
+ * Where bucket state lives. The in-memory store is per process; a shared
+ * store (Redis, a database) can implement the same interface when the app
+ * runs on more than one instance.
+ */
+export interface RateLimitStore {
+    take(key: string, config: BucketConfig, cost?: number): Promise<TakeResult>;
+    // The same answer `take` would give, without spending anything.
+    peek(key: string, config: BucketConfig, cost?: number): Promise<TakeResult>;
+}
+
+interface BucketState {
+    tokens: number;
+    updatedAt: number;
+}
+
+export class MemoryRateLimitStore implements RateLimitStore {
+    private readonly buckets = new Map<string, BucketState>();
+
+    constructor(private readonly maxKeys = 10_000) {}
+
+    async take(key: string, config: BucketConfig, cost = 1) {
+        return this.apply(key, config, cost, true);
+    }
+
+    async peek(key: string, config: BucketConfig, cost = 1) {
+        return this.apply(key, config, cost, false);
+    }
+
+    private apply(
+        key: string,
+        { capacity, refillPerMinute }: BucketConfig,
+        cost: number,
+        spend: boolean
+    ): TakeResult {
+        const now = Date.now();
+        const refillPerMs = refillPerMinute / 60_000;
+        const previous = this.buckets.get(key);
+        const tokens = previous
+            ? Math.min(
+                  capacity,
+                  previous.tokens + (now - previous.updatedAt) * refillPerMs
+              )
+            : capacity;
+
+        const allowed = tokens >= cost;
+        const next = allowed && spend ? tokens - cost : tokens;
+        if (spend) this.remember(key, { tokens: next, updatedAt: now });
+
+        return {
+            allowed,
+            remaining: Math.floor(allowed ? tokens - cost : tokens),
+            retryAfterMs: allowed
+                ? 0
+                : Math.ceil((cost - tokens) / Math.max(refillPerMs, 1e-9)),
+        };
+    }
+
+    // Map iteration order is insertion order, so re-inserting on every touch
+    // makes the first key the least recently used one.
+    private remember(key: string, state: BucketState) {
+        this.buckets.delete(key);
+        this.buckets.set(key, state);
+        if (this.buckets.size > this.maxKeys) {
+            const oldest = this.buckets.keys().next().value;
+            if (oldest !== undefined) this.buckets.delete(oldest);
+        }
+    }
+}
+
+export class RateLimitError extends Error {
+    constructor(
+        readonly scope: string,
+        readonly retryAfterMs: number
+    ) {
+        super(
+            `Too many requests. Please wait ${Math.ceil(retryAfterMs / 1000)} seconds and try again.`
+        );
+        this.name = "RateLimitError";
+    }
+}
+
+export interface RateLimitRule {
+    scope: string;
+    key: string;
+    config: BucketConfig;
+}
+
+/**
+ * Takes one token from every rule's bucket, or none: all buckets are checked
+ * first, so a request refused by one doesn't use up the others.
+ */
+export async function enforceRateLimits(
+    store: RateLimitStore,
+    rules: RateLimitRule[]
+) {
+    for (const rule of rules) {
+        const result = await store.peek(
+            `${rule.scope}:${rule.key}`,
+            rule.config
+        );
+        if (!result.allowed) {
+            throw new RateLimitError(rule.scope, result.retryAfterMs);
+        }
+    }
+    for (const rule of rules) {
+        await store.take(`${rule.scope}:${rule.key}`, rule.config);
+    }
+}
+
+// No proxy unless configured: without one, `x-forwarded-for` is whatever
+// the client wrote.
+function trustedProxyHops(env = process.env) {
+    const hops = Number(env.TRUSTED_PROXY_HOPS ?? 0);
+    return Number.isInteger(hops) && hops >= 0 ? hops : 0;
+}
+
+/**
+ * The client address as seen by the outermost proxy we run behind. Each
+ * proxy appends the address it received from to `x-forwarded-for`, so only
+ * the last `TRUSTED_PROXY_HOPS` entries were written by our own proxies;
+ * anything to their left came from the client and could be made up.
+ * Undefined when there is no trusted proxy header, or no proxy is
+ * configured (`TRUSTED_PROXY_HOPS=0`, the default).
+ */
+export function clientIp(req: Request, hops = trustedProxyHops()) {
+    if (hops === 0) return undefined;
+    const forwarded = req.headers
+        .get("x-forwarded-for")
+        ?.split(",")
+        .map((entry) => entry.trim())
+        .filter(Boolean);
+    if (forwarded?.length) {
+        return forwarded[Math.max(forwarded.length - hops, 0)];
+    }
+    return req.headers.get("x-real-ip")?.trim() || undefined;
+}
+
+let defaultStore: RateLimitStore | undefined;
+
+/** Process-wide store; swap in a shared implementation with `setRateLimitStore`. */
+export function getRateLimitStore() {
+    defaultStore ??= new MemoryRateLimitStore();
+    return defaultStore;
+}
+
+export function setRateLimitStore(store: RateLimitStore) {
+    defaultStore = store;
+}
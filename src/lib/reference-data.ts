@@ -0,0 +1,167 @@
+import { ithakaClient } from "@/lib/ithaka/client";
+import type {
+    Category,
+    Destination,
+    PageContents,
+} from "@/lib/ithaka/schemas";
+import { logger } from "@/lib/telemetry/logger";
+import { withSpan } from "@/lib/telemetry/trace";
+
+const MINUTE = 60 * 1000;
+
+export interface CachedResourceOptions<T> {
+    name: string;
+    load: () => Promise<T>;
+    // How long a fetched value is served without touching the backend.
+    ttlMs: number;
+    // How long past the TTL a stale value is still served while a background
+    // refresh runs. After that, callers wait for the refresh.
+    staleWhileRevalidateMs: number;
+}
+
+export interface CachedResource<T> {
+    get: () => Promise<T>;
+    refresh: () => Promise<T>;
+    invalidate: () => void;
+}
+
+export function createCachedResource<T>({
+    name,
+    load,
+    ttlMs,
+    staleWhileRevalidateMs,
+}: CachedResourceOptions<T>): CachedResource<T> {
+    let entry: { value: T; fetchedAt: number } | undefined;
+    let inflight: Promise<T> | undefined;
+
+    function refresh() {
+        // Concurrent callers share one request instead of stampeding the backend.
+        if (!inflight) {
+            inflight = withSpan(
+                "reference-data.fetch",
+                { resource: name },
+                load
+            )
+                .then((value) => {
+                    entry = { value, fetchedAt: Date.now() };
+                    return value;
+                })
+                .finally(() => {
+                    inflight = undefined;
+                });
+        }
+        return inflight;
+    }
+
+    async function get() {
+        if (!entry) {
+            return refresh();
+        }
+
+        const age = Date.now() - entry.fetchedAt;
+        if (age < ttlMs) {
+            return entry.value;
+        }
+
+        if (age < ttlMs + staleWhileRevalidateMs) {
+            refresh().catch((error) => {
+                logger.error("Reference data revalidation failed", {
+                    resource: name,
+                    error,
+                });
+            });
+            return entry.value;
+        }
+
+        try {
+            return await refresh();
+        } catch (error) {
+            // Serve the last good value rather than failing the chat turn.
+            logger.error("Reference data refresh failed, serving stale", {
+                resource: name,
+                error,
+            });
+            return entry.value;
+        }
+    }
+
+    return {
+        get,
+        refresh,
+        invalidate: () => {
+            entry = undefined;
+        },
+    };
+}
+
+export const destinationsResource = createCachedResource({
+    name: "destinations",
+    load: () => ithakaClient.fetchDestinations(),
+    ttlMs: 15 * MINUTE,
+    staleWhileRevalidateMs: 60 * MINUTE,
+});
+
+export const categoriesResource = createCachedResource({
+    name: "categories",
+    load: () => ithakaClient.fetchCategories(),
+    ttlMs: 15 * MINUTE,
+    staleWhileRevalidateMs: 60 * MINUTE,
+});
+
+export const privacyPolicyResource = createCachedResource({
+    name: "privacy policy",
+    load: () => ithakaClient.fetchPrivacyPolicy(),
+    ttlMs: 6 * 60 * MINUTE,
+    staleWhileRevalidateMs: 24 * 60 * MINUTE,
+});
+
+export const faqResource = createCachedResource({
+    name: "FAQ",
+    load: () => ithakaClient.fetchFaq(),
+    ttlMs: 60 * MINUTE,
+    staleWhileRevalidateMs: 24 * 60 * MINUTE,
+});
+
+export interface ReferenceData {
+    destinations: Destination[];
+    categories: Category[];
+    privacyPolicy: PageContents | null;
+    faq: PageContents | null;
+}
+
+function settledOr<T>(
+    result: PromiseSettledResult<T>,
+    fallback: T,
+    name: string
+) {
+    if (result.status === "fulfilled") {
+        return result.value;
+    }
+    logger.error("Reference data unavailable", {
+        resource: name,
+        error: result.reason,
+    });
+    return fallback;
+}
+
+/**
+ * Loads all reference data in parallel. A resource that has never loaded
+ * successfully degrades to an empty value so one failing endpoint does not
+ * take the whole chat turn down with it.
+ */
+export async function getReferenceData(): Promise<ReferenceData> {
+    const [destinations, categories, privacyPolicy, faq] =
+        await Promise.allSettled([
+            destinationsResource.get(),
+            categoriesResource.get(),
+            privacyPolicyResource.get(),
+            faqResource.get(),
+        ]);
+
+    return {
+        destinations: settledOr(destinations, [], "destinations"),
+        categories: settledOr(categories, [], "categories"),
+        privacyPolicy: settledOr(privacyPolicy, null, "privacy policy"),
+        faq: settledOr(faq, null, "FAQ"),
+    };
+}
@@ -0,0 +1,109 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import type { Category, PaginatedListings } from "@/lib/ithaka/schemas";
+import {
+    relaxationSteps,
+    searchWithRelaxation,
+    type ListingQuery,
+} from "@/lib/search-relaxation";
+
+const categories: Category[] = [
+    { id: 1, name: "Adventure", parent_id: null },
+    { id: 2, name: "Water Sports", parent_id: 1 },
+    { id: 3, name: "Desert Safari", parent_id: 1 },
+];
+
+const query: ListingQuery = {
+    search: "sunset",
+    categories: [2],
+    max_price: 40,
+    from_date: "2026-11-01",
+    to_date: "2026-11-03",
+};
+
+function results(count: number): PaginatedListings {
+    return {
+        listings: Array.from({ length: count }, (_, i) => ({
+            id: i + 1,
+            title: `Listing ${i + 1}`,
+        })),
+    };
+}
+
+describe("relaxationSteps", () => {
+    it("loosens price, dates, search text and categories in order", () => {
+        const steps = relaxationSteps(query, { categories });
+        assert.deepEqual(
+            steps.map(({ relaxation }) => relaxation.constraint),
+            ["price", "dates", "search", "categories"]
+        );
+        assert.deepEqual(steps.at(-1)?.query, {
+            search: undefined,
+            categories: [2, 1, 3],
+            min_price: undefined,
+            max_price: 50,
+            from_date: undefined,
+            to_date: undefined,
+        });
+    });
+
+    it("describes each step", () => {
+        const [price, dates, search, related] = relaxationSteps(query, {
+            categories,
+            priceWidenPercent: 50,
+        }).map(({ relaxation }) => relaxation.description);
+        assert.equal(price, "Price widened by 50%: up to 40 became up to 60");
+        assert.equal(dates, "Dates dropped (was 2026-11-01 to 2026-11-03)");
+        assert.equal(search, 'Search text "sunset" dropped');
+        assert.equal(
+            related,
+            "Expanded to related categories: Adventure, Desert Safari"
+        );
+    });
+
+    it("skips constraints the query does not have", () => {
+        assert.deepEqual(relaxationSteps({ categories: [1] }), []);
+    });
+});
+
+describe("searchWithRelaxation", () => {
+    it("does not relax a search that has results", async () => {
+        const result = await searchWithRelaxation(query, async () =>
+            results(2)
+        );
+        assert.deepEqual(result.relaxed, []);
+        assert.equal(result.appliedQuery, query);
+    });
+
+    it("stops at the first step with results", async () => {
+        const searched: ListingQuery[] = [];
+        const result = await searchWithRelaxation(
+            query,
+            async (q) => {
+                searched.push(q);
+                return results(q.from_date ? 0 : 1);
+            },
+            { categories }
+        );
+        assert.equal(searched.length, 3);
+        assert.deepEqual(
+            result.relaxed.map(({ constraint }) => constraint),
+            ["price", "dates"]
+        );
+        assert.equal(result.appliedQuery.search, "sunset");
+        assert.equal(result.listings.length, 1);
+    });
+
+    it("leaves later pages alone", async () => {
+        let calls = 0;
+        const result = await searchWithRelaxation(
+            { ...query, page: 2 },
+            async () => {
+                calls++;
+                return results(0);
+            }
+        );
+        assert.equal(calls, 1);
+        assert.deepEqual(result.relaxed, []);
+    });
+});
@@ -0,0 +1,180 @@
+import type { Category, PaginatedListings } from "@/lib/ithaka/schemas";
+
+export interface ListingQuery {
+    search?: string;
+    categories?: number[];
+    destinations?: number[];
+    min_price?: number;
+    max_price?: number;
+    from_date?: string;
+    to_date?: string;
+    sort_by?: string;
+    page?: number;
+    per_page?: number;
+}
+
+export type RelaxedConstraint = "price" | "dates" | "search" | "categories";
+
+export interface Relaxation {
+    constraint: RelaxedConstraint;
+    // What the user asked for and what was searched instead, in words the
+    // model can repeat.
+    description: string;
+}
+
+export interface RelaxationOptions {
+    // How far to widen each end of the price range, in percent.
+    priceWidenPercent?: number;
+    // Needed to expand to sibling categories; skipped without it.
+    categories?: Category[];
+}
+
+interface RelaxationStep {
+    query: ListingQuery;
+    relaxation: Relaxation;
+}
+
+function widenPrice(query: ListingQuery, percent: number) {
+    if (query.min_price === undefined && query.max_price === undefined) {
+        return undefined;
+    }
+    const factor = percent / 100;
+    const min =
+        query.min_price !== undefined
+            ? Math.floor(query.min_price * (1 - factor))
+            : undefined;
+    const max =
+        query.max_price !== undefined
+            ? Math.ceil(query.max_price * (1 + factor))
+            : undefined;
+    const range = (from?: number, to?: number) =>
+        from !== undefined && to !== undefined
+            ? `${from}-${to}`
+            : from !== undefined
+              ? `from ${from}`
+              : `up to ${to}`;
+
+    return {
+        query: { ...query, min_price: min, max_price: max },
+        relaxation: {
+            constraint: "price" as const,
+            description: `Price widened by ${percent}%: ${range(query.min_price, query.max_price)} became ${range(min, max)}`,
+        },
+    };
+}
+
+/**
+ * Each category plus its parent and the parent's other children, e.g.
+ * "Water Sports" also searches "Adventure" and "Desert Safari".
+ */
+function siblingCategories(ids: number[], categories: Category[]) {
+    const expanded = new Set(ids);
+    for (const id of ids) {
+        const category = categories.find((c) => c.id === id);
+        const parentId = category?.parent_id;
+        if (typeof parentId !== "number") continue;
+        expanded.add(parentId);
+        for (const sibling of categories) {
+            if (sibling.parent_id === parentId) expanded.add(sibling.id);
+        }
+    }
+    return [...expanded];
+}
+
+function namesOf(ids: number[], categories: Category[]) {
+    return ids
+        .map((id) => categories.find((c) => c.id === id)?.name ?? `#${id}`)
+        .join(", ");
+}
+
+/**
+ * The fallback queries to try, in order. Each step keeps the previous ones'
+ * relaxations, so the last step is the loosest search.
+ */
+export function relaxationSteps(
+    query: ListingQuery,
+    { priceWidenPercent = 25, categories = [] }: RelaxationOptions = {}
+): RelaxationStep[] {
+    const steps: RelaxationStep[] = [];
+    let current = query;
+    const push = (step: RelaxationStep | undefined) => {
+        if (!step) return;
+        steps.push(step);
+        current = step.query;
+    };
+
+    push(widenPrice(current, priceWidenPercent));
+
+    if (current.from_date || current.to_date) {
+        push({
+            query: { ...current, from_date: undefined, to_date: undefined },
+            relaxation: {
+                constraint: "dates",
+                description: `Dates dropped (was ${current.from_date ?? "any"} to ${current.to_date ?? "any"})`,
+            },
+        });
+    }
+
+    if (current.search) {
+        push({
+            query: { ...current, search: undefined },
+            relaxation: {
+                constraint: "search",
+                description: `Search text "${current.search}" dropped`,
+            },
+        });
+    }
+
+    if (current.categories?.length) {
+        const expanded = siblingCategories(current.categories, categories);
+        if (expanded.length > current.categories.length) {
+            const added = expanded.filter(
+                (id) => !current.categories!.includes(id)
+            );
+            push({
+                query: { ...current, categories: expanded },
+                relaxation: {
+                    constraint: "categories",
+                    description: `Expanded to related categories: ${namesOf(added, categories)}`,
+                },
+            });
+        }
+    }
+
+    return steps;
+}
+
+export interface RelaxedSearchResult extends PaginatedListings {
+    // Constraints loosened to get these results; empty for an exact match.
+    relaxed: Relaxation[];
+    // The filters that produced these results.
+    appliedQuery: ListingQuery;
+}
+
+/**
+ * Runs `query`, and while it comes back empty, retries with progressively
+ * looser filters: wider price, no dates, no search text, sibling
+ * categories. Stops at the first step with results. Only first pages are
+ * relaxed; an empty later page just means the results ran out.
+ */
+export async function searchWithRelaxation(
+    query: ListingQuery,
+    search: (query: ListingQuery) => Promise<PaginatedListings>,
+    options?: RelaxationOptions
+): Promise<RelaxedSearchResult> {
+    let response = await search(query);
+    let appliedQuery = query;
+    const relaxed: Relaxation[] = [];
+    if ((query.page ?? 1) > 1) {
+        return { ...response, relaxed, appliedQuery };
+    }
+
+    for (const step of relaxationSteps(query, options)) {
+        if (response.listings.length > 0) break;
+        relaxed.push(step.relaxation);
+        response = await search(step.query);
+        appliedQuery = step.query;
+    }
+
+    return { ...response, relaxed, appliedQuery };
+}
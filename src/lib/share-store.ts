@@ -0,0 +1,68 @@
+import { randomBytes } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+import type { Locale } from "@/lib/i18n";
+import type { Itinerary } from "@/lib/itinerary";
+
+export interface SharedItinerary {
+    token: string;
+    title: string;
+    // The sharer's language, for the page's direction.
+    locale?: Locale;
+    createdAt: string;
+    itinerary: Itinerary;
+}
+
+const TOKEN_PATTERN = /^[A-Za-z0-9_-]{22}$/;
+
+export function isValidShareToken(token: unknown): token is string {
+    return typeof token === "string" && TOKEN_PATTERN.test(token);
+}
+
+/**
+ * Read-only snapshots of an itinerary. A share link keeps showing the plan
+ * as it was when shared, even if the chat's plan changes afterwards.
+ */
+export class FileShareStore {
+    constructor(private readonly directory: string) {}
+
+    async create(title: string, itinerary: Itinerary, locale?: Locale) {
+        const share: SharedItinerary = {
+            token: randomBytes(16).toString("base64url"),
+            title,
+            locale,
+            createdAt: new Date().toISOString(),
+            itinerary,
+        };
+        await fs.mkdir(this.directory, { recursive: true });
+        await fs.writeFile(
+            path.join(this.directory, `${share.token}.json`),
+            JSON.stringify(share)
+        );
+        return share;
+    }
+
+    async get(token: string) {
+        if (!isValidShareToken(token)) return undefined;
+        try {
+            return JSON.parse(
+                await fs.readFile(
+                    path.join(this.directory, `${token}.json`),
+                    "utf8"
+                )
+            ) as SharedItinerary;
+        } catch {
+            return undefined;
+        }
+    }
+}
+
+let store: FileShareStore | undefined;
+
+export function getShareStore() {
+    store ??= new FileShareStore(
+        process.env.SHARE_STORE_DIR ??
+            path.join(process.cwd(), ".data", "shares")
+    );
+    return store;
+}
@@ -0,0 +1,153 @@
+import { appendFile, mkdir } from "node:fs/promises";
+import path from "node:path";
+import type { SpanRecord } from "@/lib/telemetry/trace";
+
+export interface TraceExporter {
+    export(spans: SpanRecord[]): Promise<void>;
+}
+
+/** Appends one JSON object per span to a file, e.g. for `jq` or log shipping. */
+export class JsonLinesExporter implements TraceExporter {
+    constructor(private readonly file: string) {}
+
+    async export(spans: SpanRecord[]) {
+        await mkdir(path.dirname(this.file), { recursive: true });
+        await appendFile(
+            this.file,
+            spans.map((span) => JSON.stringify(span) + "\n").join("")
+        );
+    }
+}
+
+type OtlpValue =
+    | { stringValue: string }
+    | { intValue: string }
+    | { doubleValue: number }
+    | { boolValue: boolean };
+
+function otlpValue(value: unknown): OtlpValue {
+    if (typeof value === "boolean") return { boolValue: value };
+    if (typeof value === "number") {
+        return Number.isInteger(value)
+            ? { intValue: String(value) }
+            : { doubleValue: value };
+    }
+    if (typeof value === "string") return { stringValue: value };
+    return { stringValue: JSON.stringify(value) };
+}
+
+function otlpAttributes(attributes: Record<string, unknown>) {
+    return Object.entries(attributes)
+        .filter(([, value]) => value !== undefined)
+        .map(([key, value]) => ({ key, value: otlpValue(value) }));
+}
+
+function nanos(ms: number) {
+    return (BigInt(ms) * BigInt(1_000_000)).toString();
+}
+
+/**
+ * Sends spans to an OpenTelemetry collector using OTLP/HTTP with JSON
+ * encoding, so no OpenTelemetry SDK is needed.
+ */
+export class OtlpHttpExporter implements TraceExporter {
+    constructor(
+        private readonly endpoint: string,
+        private readonly headers: Record<string, string> = {},
+        private readonly serviceName = "ithaka-ai-demo"
+    ) {}
+
+    async export(spans: SpanRecord[]) {
+        const body = {
+            resourceSpans: [
+                {
+                    resource: {
+                        attributes: otlpAttributes({
+                            "service.name": this.serviceName,
+                        }),
+                    },
+                    scopeSpans: [
+                        {
+                            scope: { name: "ithaka-ai" },
+                            spans: spans.map((span) => ({
+                                traceId: span.traceId,
+                                spanId: span.spanId,
+                                parentSpanId: span.parentSpanId,
+                                name: span.name,
+                                // SPAN_KIND_SERVER for the request, INTERNAL otherwise.
+                                kind: span.parentSpanId ? 1 : 2,
+                                startTimeUnixNano: nanos(span.startTime),
+                                endTimeUnixNano: nanos(span.endTime),
+                                attributes: otlpAttributes(span.attributes),
+                                status:
+                                    span.status === "error"
+                                        ? { code: 2, message: span.error }
+                                        : { code: 1 },
+                            })),
+                        },
+                    ],
+                },
+            ],
+        };
+
+        const res = await fetch(this.endpoint, {
+            method: "POST",
+            headers: { "Content-Type": "application/json", ...this.headers },
+            body: JSON.stringify(body),
+        });
+        if (!res.ok) {
+            throw new Error(`OTLP export failed with HTTP ${res.status}`);
+        }
+    }
+}
+
+// `key=value,key2=value2`, as in the standard OTEL_EXPORTER_OTLP_HEADERS.
+function parseHeaders(value: string | undefined) {
+    return Object.fromEntries(
+        (value ?? "")
+            .split(",")
+            .map((pair) => {
+                // Only the first "=" splits: values may contain more, e.g.
+                // base64 credentials.
+                const split = pair.indexOf("=");
+                if (split < 0) return [];
+                const key = pair.slice(0, split).trim();
+                return [key, pair.slice(split + 1).trim()];
+            })
+            .filter(([key, val]) => key && val)
+    );
+}
+
+let exporter: TraceExporter | null | undefined;
+
+/**
+ * Picks the exporter from `TRACE_EXPORTER`: `jsonl` (to `TRACE_JSONL_FILE`),
+ * `otlp` (to `OTEL_EXPORTER_OTLP_ENDPOINT`), or none. Spans are always in
+ * the structured log either way.
+ */
+export function getTraceExporter(env = process.env) {
+    if (exporter !== undefined) return exporter;
+
+    switch (env.TRACE_EXPORTER) {
+        case "jsonl":
+            exporter = new JsonLinesExporter(
+                env.TRACE_JSONL_FILE ??
+                    path.join(process.cwd(), ".data", "traces.jsonl")
+            );
+            break;
+        case "otlp": {
+            const base = (
+                env.OTEL_EXPORTER_OTLP_ENDPOINT ?? "http://localhost:4318"
+            ).replace(/\/$/, "");
+            exporter = new OtlpHttpExporter(
+                `${base}/v1/traces`,
+                parseHeaders(env.OTEL_EXPORTER_OTLP_HEADERS),
+                env.OTEL_SERVICE_NAME
+            );
+            break;
+        }
+        default:
+            exporter = null;
+    }
+    return exporter;
+}
@@ -0,0 +1,90 @@
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+const LEVELS: Record<LogLevel, number> = {
+    debug: 10,
+    info: 20,
+    warn: 30,
+    error: 40,
+};
+
+export type LogFields = Record<string, unknown>;
+
+export interface Logger {
+    debug(message: string, fields?: LogFields): void;
+    info(message: string, fields?: LogFields): void;
+    warn(message: string, fields?: LogFields): void;
+    error(message: string, fields?: LogFields): void;
+    // A logger that adds `fields` (e.g. a request ID) to every line.
+    child(fields: LogFields): Logger;
+}
+
+export function serializeError(error: unknown) {
+    if (error instanceof Error) {
+        return { name: error.name, message: error.message, stack: error.stack };
+    }
+    return { message: String(error) };
+}
+
+// Errors don't survive JSON.stringify, so they are expanded first.
+function jsonReplacer(_key: string, value: unknown) {
+    return value instanceof Error ? serializeError(value) : value;
+}
+
+function parseLevel(value: string | undefined): LogLevel {
+    return value && value in LEVELS ? (value as LogLevel) : "info";
+}
+
+export interface LoggerOptions {
+    level?: LogLevel;
+    // Receives one JSON line per entry; defaults to stdout/stderr.
+    write?: (line: string, level: LogLevel) => void;
+}
+
+function writeToConsole(line: string, level: LogLevel) {
+    if (level === "error" || level === "warn") {
+        process.stderr.write(line + "\n");
+    } else {
+        process.stdout.write(line + "\n");
+    }
+}
+
+/**
+ * Structured logger writing one JSON object per line, so logs can be
+ * grepped locally and shipped as-is to a log pipeline. `LOG_LEVEL` sets the
+ * minimum level (default `info`).
+ */
+export function createLogger(
+    bindings: LogFields = {},
+    {
+        level = parseLevel(process.env.LOG_LEVEL),
+        write = writeToConsole,
+    }: LoggerOptions = {}
+): Logger {
+    function log(entryLevel: LogLevel, message: string, fields?: LogFields) {
+        if (LEVELS[entryLevel] < LEVELS[level]) return;
+        write(
+            JSON.stringify(
+                {
+                    time: new Date().toISOString(),
+                    level: entryLevel,
+                    msg: message,
+                    ...bindings,
+                    ...fields,
+                },
+                jsonReplacer
+            ),
+            entryLevel
+        );
+    }
+
+    return {
+        debug: (message, fields) => log("debug", message, fields),
+        info: (message, fields) => log("info", message, fields),
+        warn: (message, fields) => log("warn", message, fields),
+        error: (message, fields) => log("error", message, fields),
+        child: (fields) =>
+            createLogger({ ...bindings, ...fields }, { level, write }),
+    };
+}
+
+export const logger = createLogger();
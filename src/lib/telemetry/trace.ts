@@ -0,0 +1,248 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import { randomBytes } from "node:crypto";
+import type { Tool } from "ai";
+import { extractRawListings } from "@/lib/listings";
+import { getTraceExporter } from "@/lib/telemetry/exporters";
+import { logger as rootLogger, type Logger } from "@/lib/telemetry/logger";
+
+export type SpanAttributes = Record<string, unknown>;
+
+export interface SpanRecord {
+    traceId: string;
+    spanId: string;
+    parentSpanId?: string;
+    name: string;
+    // Epoch milliseconds.
+    startTime: number;
+    endTime: number;
+    attributes: SpanAttributes;
+    status: "ok" | "error";
+    error?: string;
+}
+
+export interface Span {
+    readonly spanId: string;
+    setAttributes(attributes: SpanAttributes): void;
+    end(attributes?: SpanAttributes): void;
+    fail(error: unknown, attributes?: SpanAttributes): void;
+}
+
+function hexId(bytes: number) {
+    return randomBytes(bytes).toString("hex");
+}
+
+function errorMessage(error: unknown) {
+    return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Collects the spans of one request under a root span and writes each one
+ * to the log as it ends. `end()` closes the root span and hands the whole
+ * trace to the configured exporter.
+ */
+export class Trace {
+    readonly traceId = hexId(16);
+    readonly rootSpanId = hexId(8);
+    readonly spans: SpanRecord[] = [];
+    readonly startTime = Date.now();
+    readonly log: Logger;
+    private ended = false;
+
+    constructor(
+        readonly name: string,
+        readonly requestId: string,
+        logger: Logger = rootLogger
+    ) {
+        this.log = logger.child({ requestId, traceId: this.traceId });
+    }
+
+    startSpan(name: string, attributes: SpanAttributes = {}): Span {
+        const startTime = Date.now();
+        const spanId = hexId(8);
+        const current = { ...attributes };
+        let done = false;
+
+        const finish = (extra: SpanAttributes | undefined, error?: unknown) => {
+            if (done) return;
+            done = true;
+            this.record({
+                spanId,
+                name,
+                startTime,
+                endTime: Date.now(),
+                attributes: { ...current, ...extra },
+                error,
+            });
+        };
+
+        return {
+            spanId,
+            setAttributes: (extra) => Object.assign(current, extra),
+            end: (extra) => finish(extra),
+            fail: (error, extra) => finish(extra, error ?? "failed"),
+        };
+    }
+
+    /** Runs `fn` inside a span that ends, or fails, with it. */
+    async span<T>(
+        name: string,
+        attributes: SpanAttributes,
+        fn: (span: Span) => PromiseLike<T>
+    ): Promise<T> {
+        const span = this.startSpan(name, attributes);
+        try {
+            const result = await fn(span);
+            span.end();
+            return result;
+        } catch (error) {
+            span.fail(error);
+            throw error;
+        }
+    }
+
+    /** Records a span whose timing was measured elsewhere (e.g. model steps). */
+    record({
+        spanId = hexId(8),
+        name,
+        startTime,
+        endTime,
+        attributes,
+        error,
+    }: {
+        spanId?: string;
+        name: string;
+        startTime: number;
+        endTime: number;
+        attributes: SpanAttributes;
+        error?: unknown;
+    }) {
+        const span: SpanRecord = {
+            traceId: this.traceId,
+            spanId,
+            parentSpanId: this.rootSpanId,
+            name,
+            startTime,
+            endTime,
+            attributes,
+            status: error === undefined ? "ok" : "error",
+            ...(error !== undefined && { error: errorMessage(error) }),
+        };
+        this.spans.push(span);
+        this.log[error === undefined ? "info" : "warn"](name, {
+            spanId,
+            durationMs: endTime - startTime,
+            ...attributes,
+            ...(span.error && { error: span.error }),
+        });
+    }
+
+    end(attributes: SpanAttributes = {}, error?: unknown) {
+        if (this.ended) return;
+        this.ended = true;
+
+        const root: SpanRecord = {
+            traceId: this.traceId,
+            spanId: this.rootSpanId,
+            name: this.name,
+            startTime: this.startTime,
+            endTime: Date.now(),
+            attributes: { "request.id": this.requestId, ...attributes },
+            status: error === undefined ? "ok" : "error",
+            ...(error !== undefined && { error: errorMessage(error) }),
+        };
+        this.spans.unshift(root);
+
+        getTraceExporter()
+            ?.export(this.spans)
+            .catch((exportError) =>
+                this.log.error("Trace export failed", { error: exportError })
+            );
+    }
+}
+
+const activeTrace = new AsyncLocalStorage<Trace>();
+
+export function runWithTrace<T>(trace: Trace, fn: () => T): T {
+    return activeTrace.run(trace, fn);
+}
+
+export function currentTrace() {
+    return activeTrace.getStore();
+}
+
+/**
+ * Wraps `fn` in a span on the active request's trace. Outside a request
+ * (e.g. background cache refreshes after the response ended) it just runs.
+ */
+export function withSpan<T>(
+    name: string,
+    attributes: SpanAttributes,
+    fn: () => PromiseLike<T>
+): Promise<T> {
+    const trace = currentTrace();
+    return trace ? trace.span(name, attributes, fn) : Promise.resolve(fn());
+}
+
+/** Best-effort size of a tool result: listings, sections, plan items. */
+function resultCount(result: unknown): number | undefined {
+    const listings = extractRawListings(result);
+    if (listings.length > 0) return listings.length;
+    if (typeof result !== "object" || result === null) return undefined;
+
+    for (const value of Object.values(result)) {
+        if (Array.isArray(value)) return value.length;
+    }
+    const items = (result as { itinerary?: { items?: unknown[] } }).itinerary
+        ?.items;
+    return items?.length;
+}
+
+/**
+ * Wraps every tool's `execute` in a `tool.<name>` span recording the
+ * arguments the model picked, the duration and how many results came back.
+ * Tools report failures as `{ success: false, error }`, so those mark the
+ * span as failed too.
+ */
+export function traceTools<TOOLS extends Record<string, Tool>>(
+    trace: Trace,
+    tools: TOOLS
+): TOOLS {
+    return Object.fromEntries(
+        Object.entries(tools).map(([name, original]) => {
+            const execute = original.execute;
+            if (!execute) return [name, original];
+            return [
+                name,
+                {
+                    ...original,
+                    execute: (args: unknown, options: unknown) =>
+                        trace.span(
+                            `tool.${name}`,
+                            { "tool.args": args },
+                            async (span) => {
+                                const result = await execute(
+                                    args,
+                                    options as Parameters<typeof execute>[1]
+                                );
+                                const failed =
+                                    (result as { success?: unknown })
+                                        ?.success === false;
+                                const attributes = {
+                                    "tool.result_count": resultCount(result),
+                                };
+                                if (failed) {
+                                    span.fail(
+                                        (result as { error?: unknown }).error,
+                                        attributes
+                                    );
+                                } else {
+                                    span.setAttributes(attributes);
+                                }
+                                return result;
+                            }
+                        ),
+                },
+            ];
+        })
+    ) as TOOLS;
+}
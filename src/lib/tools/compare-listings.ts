@@ -0,0 +1,69 @@
+import { tool } from "ai";
+import { z } from "zod";
+import { errorHandler } from "@/lib/errors";
+import { ithakaClient } from "@/lib/ithaka/client";
+import { IthakaAbortedError, IthakaHttpError } from "@/lib/ithaka/errors";
+import { compareListings } from "@/lib/listing-comparison";
+import type { ListingLookup } from "@/lib/listings";
+import { logger } from "@/lib/telemetry/logger";
+
+/**
+ * Normalized side-by-side data for 2-4 listings. The page renders it as a
+ * table, so the model only has to summarise the trade-offs.
+ */
+export function createCompareListingsTool(listings: ListingLookup) {
+    return tool({
+        description:
+            "Compare 2 to 4 listings side by side: price per person, duration, rating, reviews, inclusions and cancellation policy. The user sees the result as a table.",
+        parameters: z.object({
+            listingIds: z
+                .array(z.union([z.number(), z.string()]))
+                .min(2)
+                .max(4)
+                .describe("IDs of listings returned by searchListings"),
+        }),
+        execute: async ({ listingIds }, { abortSignal }) => {
+            const ids = [...new Set(listingIds.map(String))];
+            if (ids.length < 2) {
+                return {
+                    success: false,
+                    error: "Pick at least two different listings to compare",
+                };
+            }
+
+            const client = ithakaClient.withSignal(abortSignal);
+            try {
+                const fetched = await Promise.all(
+                    ids.map((id) =>
+                        client.fetchListing(id).catch((error) => {
+                            if (
+                                error instanceof IthakaHttpError &&
+                                error.status === 404
+                            ) {
+                                return id;
+                            }
+                            throw error;
+                        })
+                    )
+                );
+                const missing = fetched.filter((f) => typeof f === "string");
+                if (missing.length > 0) {
+                    return {
+                        success: false,
+                        error: `Listings ${missing.join(", ")} do not exist`,
+                    };
+                }
+
+                const records = fetched.filter((f) => typeof f !== "string");
+                listings.remember(records);
+                return { success: true, ...compareListings(records) };
+            } catch (error) {
+                if (error instanceof IthakaAbortedError) {
+                    return { success: false, error: error.message };
+                }
+                logger.error("❌ Compare listings error", { error });
+                return { success: false, error: errorHandler(error) };
+            }
+        },
+    });
+}
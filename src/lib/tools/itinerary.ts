@@ -0,0 +1,111 @@
+import { tool } from "ai";
+import { z } from "zod";
+import {
+    addItem,
+    groupByDay,
+    moveItem,
+    removeItem,
+    type Itinerary,
+} from "@/lib/itinerary";
+import type { ListingLookup } from "@/lib/listings";
+
+export interface ItinerarySession {
+    get: () => Itinerary;
+    set: (itinerary: Itinerary) => Promise<void>;
+}
+
+function result(itinerary: Itinerary) {
+    return { success: true, itinerary, days: groupByDay(itinerary) };
+}
+
+/**
+ * Itinerary tools bound to one conversation. Listing data is always taken
+ * from `listings` (search results seen in this chat), never from model
+ * arguments, so prices and links in the plan match the API.
+ */
+export function createItineraryTools(
+    session: ItinerarySession,
+    listings: ListingLookup
+) {
+    return {
+        addToItinerary: tool({
+            description:
+                "Add an activity from earlier search results to the user's day-by-day trip plan",
+            parameters: z.object({
+                listingId: z
+                    .union([z.number(), z.string()])
+                    .describe("ID of a listing returned by searchListings"),
+                day: z
+                    .number()
+                    .int()
+                    .min(1)
+                    .optional()
+                    .describe("Trip day number, starting at 1"),
+                date: z
+                    .string()
+                    .date()
+                    .optional()
+                    .describe("Calendar date in YYYY-MM-DD format"),
+                notes: z.string().optional().describe("Short note for the user"),
+            }),
+            execute: async ({ listingId, day, date, notes }) => {
+                const listing = listings.find(listingId);
+                if (!listing) {
+                    return {
+                        success: false,
+                        error: `Listing ${listingId} was not found in this conversation's search results. Search for it first.`,
+                    };
+                }
+                const { itinerary, item } = addItem(session.get(), listing, {
+                    day,
+                    date,
+                    notes,
+                });
+                await session.set(itinerary);
+                return { ...result(itinerary), added: item.id };
+            },
+        }),
+
+        removeFromItinerary: tool({
+            description:
+                "Remove an activity from the trip plan by its itinerary item ID or listing ID",
+            parameters: z.object({
+                id: z
+                    .union([z.string(), z.number()])
+                    .describe("Itinerary item ID or listing ID"),
+            }),
+            execute: async ({ id }) => {
+                const itinerary = removeItem(session.get(), id);
+                await session.set(itinerary);
+                return result(itinerary);
+            },
+        }),
+
+        reorderItinerary: tool({
+            description:
+                "Move an activity in the trip plan to another day and/or position within that day",
+            parameters: z.object({
+                itemId: z.string().describe("Itinerary item ID"),
+                day: z.number().int().min(1).optional().describe("Target day"),
+                position: z
+                    .number()
+                    .int()
+                    .min(0)
+                    .optional()
+                    .describe("0-based position within the day"),
+            }),
+            execute: async ({ itemId, day, position }) => {
+                const current = session.get();
+                if (!current.items.some((item) => item.id === itemId)) {
+                    return {
+                        success: false,
+                        error: `No itinerary item ${itemId}`,
+                    };
+                }
+                const itinerary = moveItem(current, itemId, { day, position });
+                await session.set(itinerary);
+                return result(itinerary);
+            },
+        }),
+    };
+}
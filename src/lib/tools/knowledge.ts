@@ -0,0 +1,92 @@
+import { tool } from "ai";
+import { z } from "zod";
+import { createIndexCache, type SectionMatch } from "@/lib/document-index";
+import { errorHandler } from "@/lib/errors";
+import { faqResource, privacyPolicyResource } from "@/lib/reference-data";
+import { logger } from "@/lib/telemetry/logger";
+
+const faqIndex = createIndexCache("faq");
+const privacyIndex = createIndexCache("privacy");
+
+function toResult(matches: SectionMatch[]) {
+    return {
+        success: true,
+        sections: matches.map(({ id, title, content, score }) => ({
+            id,
+            title,
+            content,
+            score: Number(score.toFixed(3)),
+        })),
+    };
+}
+
+export const searchFaqTool = tool({
+    description:
+        "Search Ithaka's FAQ for the sections that best answer a question. Cite the returned section IDs.",
+    parameters: z.object({
+        query: z.string().describe("The user's question or its key terms"),
+        limit: z
+            .number()
+            .int()
+            .min(1)
+            .max(5)
+            .optional()
+            .describe("Maximum number of sections to return"),
+    }),
+    execute: async ({ query, limit }) => {
+        try {
+            const index = faqIndex(await faqResource.get());
+            return toResult(index.search(query, limit ?? 3));
+        } catch (error) {
+            logger.error("❌ FAQ search error", { error });
+            return { success: false, error: errorHandler(error) };
+        }
+    },
+});
+
+export const lookupPrivacySectionTool = tool({
+    description:
+        "Look up sections of Ithaka's Privacy Policy by topic, or fetch one section by its ID. Cite the returned section IDs.",
+    parameters: z.object({
+        query: z
+            .string()
+            .optional()
+            .describe("Privacy topic, e.g. data retention or third-party sharing"),
+        sectionId: z
+            .string()
+            .optional()
+            .describe("A section ID returned earlier, e.g. privacy-8"),
+        limit: z
+            .number()
+            .int()
+            .min(1)
+            .max(5)
+            .optional()
+            .describe("Maximum number of sections to return"),
+    }),
+    execute: async ({ query, sectionId, limit }) => {
+        try {
+            const index = privacyIndex(await privacyPolicyResource.get());
+            if (sectionId) {
+                const section = index.get(sectionId);
+                return section
+                    ? toResult([{ ...section, score: 1 }])
+                    : { success: false, error: `Unknown section ${sectionId}` };
+            }
+            if (!query) {
+                // No topic given: return the outline so the model can summarise.
+                return {
+                    success: true,
+                    outline: index.sections.map(({ id, title }) => ({
+                        id,
+                        title,
+                    })),
+                };
+            }
+            return toResult(index.search(query, limit ?? 3));
+        } catch (error) {
+            logger.error("❌ Privacy lookup error", { error });
+            return { success: false, error: errorHandler(error) };
+        }
+    },
+});
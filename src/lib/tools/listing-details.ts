@@ -0,0 +1,229 @@
+import { tool } from "ai";
+import { z } from "zod";
+import {
+    checkDateRange,
+    dateContext,
+    type DateContext,
+} from "@/lib/date-range";
+import { errorHandler } from "@/lib/errors";
+import { ithakaClient } from "@/lib/ithaka/client";
+import { IthakaAbortedError, IthakaHttpError } from "@/lib/ithaka/errors";
+import type { Promotion, ScheduleDay } from "@/lib/ithaka/schemas";
+import type { ListingLookup } from "@/lib/listings";
+import { logger } from "@/lib/telemetry/logger";
+
+// How far ahead getListingDetails shows departures, and checkAvailability
+// looks for alternatives when a date is full.
+const LOOKAHEAD_DAYS = 14;
+
+function addDays(date: string, days: number) {
+    const next = new Date(`${date}T00:00:00Z`);
+    next.setUTCDate(next.getUTCDate() + days);
+    return next.toISOString().slice(0, 10);
+}
+
+function toNumber(value: number | string | null | undefined) {
+    const number = typeof value === "string" ? Number(value) : value;
+    return typeof number === "number" && Number.isFinite(number)
+        ? number
+        : undefined;
+}
+
+function activePromotions(promotions: Promotion[], date: string) {
+    return promotions.filter(
+        (p) =>
+            (!p.valid_from || p.valid_from <= date) &&
+            (!p.valid_to || p.valid_to >= date)
+    );
+}
+
+/** The lowest price any of the promotions gets `price` down to. */
+function discountedPrice(price: number | undefined, promotions: Promotion[]) {
+    if (price === undefined || promotions.length === 0) return undefined;
+    const prices = promotions.map((p) => {
+        const percent = toNumber(p.discount_percent);
+        const amount = toNumber(p.discount_amount);
+        if (percent) return price * (1 - percent / 100);
+        if (amount) return price - amount;
+        return price;
+    });
+    const best = Math.max(0, Math.min(...prices));
+    return best < price ? Math.round(best * 100) / 100 : undefined;
+}
+
+function describePromotions(promotions: Promotion[]) {
+    return promotions.map((p) => ({
+        title: p.title,
+        discountPercent: toNumber(p.discount_percent),
+        discountAmount: toNumber(p.discount_amount),
+        code: p.code ?? undefined,
+        validUntil: p.valid_to ?? undefined,
+    }));
+}
+
+function describeSlots(day: ScheduleDay, guests: number) {
+    return day.slots.map((slot) => ({
+        startTime: slot.start_time,
+        endTime: slot.end_time ?? undefined,
+        remainingSlots: slot.remaining_slots,
+        bookable: slot.remaining_slots >= guests,
+    }));
+}
+
+// Schedules and promotions are extras: the listing is still worth showing
+// when those endpoints fail.
+async function optional<T>(what: string, load: () => Promise<T>) {
+    try {
+        return await load();
+    } catch (error) {
+        logger.warn(`Listing ${what} unavailable`, { error });
+        return undefined;
+    }
+}
+
+function notFound(error: unknown, listingId: number | string) {
+    return error instanceof IthakaHttpError && error.status === 404
+        ? { success: false, error: `Listing ${listingId} does not exist` }
+        : undefined;
+}
+
+const listingIdParameter = z
+    .union([z.number(), z.string()])
+    .describe("ID of a listing returned by searchListings");
+
+/**
+ * Full record for one listing, for questions search results can't answer,
+ * with its departures over the next two weeks and current promotions.
+ * "Today" is the user's, from `dates`.
+ */
+export function createListingDetailsTool(
+    listings: ListingLookup,
+    dates?: DateContext
+) {
+    return tool({
+        description:
+            "Get the full details of one listing: description, duration, inclusions, upcoming departures with remaining places, and current discounts or promotions",
+        parameters: z.object({ listingId: listingIdParameter }),
+        execute: async ({ listingId }, { abortSignal }) => {
+            const client = ithakaClient.withSignal(abortSignal);
+            try {
+                const from = (dates ?? dateContext()).today;
+                const [listing, schedule, promotions] = await Promise.all([
+                    client.fetchListing(listingId),
+                    optional("schedule", () =>
+                        client.fetchListingSchedule(listingId, {
+                            from,
+                            to: addDays(from, LOOKAHEAD_DAYS - 1),
+                        })
+                    ),
+                    optional("promotions", () =>
+                        client.fetchListingPromotions(listingId)
+                    ),
+                ]);
+                listings.remember([listing]);
+
+                const active = activePromotions(promotions ?? [], from);
+                return {
+                    success: true,
+                    listing,
+                    upcomingDepartures: schedule?.schedules
+                        .filter((day) => day.available)
+                        .map((day) => ({
+                            date: day.date,
+                            slots: describeSlots(day, 1),
+                        })),
+                    promotions: describePromotions(active),
+                    discountedPrice: discountedPrice(
+                        toNumber(listing.price),
+                        active
+                    ),
+                };
+            } catch (error) {
+                const missing = notFound(error, listingId);
+                if (missing) return missing;
+                if (error instanceof IthakaAbortedError) {
+                    return { success: false, error: error.message };
+                }
+                logger.error("❌ Listing details error", { error });
+                return { success: false, error: errorHandler(error) };
+            }
+        },
+    });
+}
+
+/** Bookability on one date; dates before the user's today are refused. */
+export function createCheckAvailabilityTool(dates?: DateContext) {
+    return tool({
+        description:
+            "Check whether a listing can be booked on a date: departure times, remaining places, the price on that date and any discount. Suggests the next available dates when it is full.",
+        parameters: z.object({
+            listingId: listingIdParameter,
+            date: z.string().date().describe("Date in YYYY-MM-DD format"),
+            guests: z
+                .number()
+                .int()
+                .min(1)
+                .optional()
+                .describe("Number of people (default 1)"),
+        }),
+        execute: async ({ listingId, date, guests = 1 }, { abortSignal }) => {
+            const invalid = checkDateRange(
+                { from_date: date },
+                dates ?? dateContext()
+            );
+            if (invalid) return { success: false, error: invalid };
+
+            const client = ithakaClient.withSignal(abortSignal);
+            try {
+                const [availability, promotions] = await Promise.all([
+                    client.fetchAvailability(listingId, date),
+                    optional("promotions", () =>
+                        client.fetchListingPromotions(listingId)
+                    ),
+                ]);
+                const slots = describeSlots(availability, guests);
+                const available = slots.some((slot) => slot.bookable);
+                const price = toNumber(availability.slots[0]?.price);
+                const active = activePromotions(promotions ?? [], date);
+
+                let alternativeDates: string[] | undefined;
+                if (!available) {
+                    const schedule = await optional("schedule", () =>
+                        client.fetchListingSchedule(listingId, {
+                            from: addDays(date, 1),
+                            to: addDays(date, LOOKAHEAD_DAYS),
+                        })
+                    );
+                    alternativeDates = schedule?.schedules
+                        .filter((day) =>
+                            day.slots.some((slot) => slot.remaining_slots >= guests)
+                        )
+                        .slice(0, 3)
+                        .map((day) => day.date);
+                }
+
+                return {
+                    success: true,
+                    listingId,
+                    date,
+                    guests,
+                    available,
+                    slots,
+                    price,
+                    currency: availability.currency ?? undefined,
+                    discountedPrice: discountedPrice(price, active),
+                    promotions: describePromotions(active),
+                    ...(alternativeDates && { alternativeDates }),
+                };
+            } catch (error) {
+                const missing = notFound(error, listingId);
+                if (missing) return missing;
+                if (error instanceof IthakaAbortedError) {
+                    return { success: false, error: error.message };
+                }
+                logger.error("❌ Availability check error", { error });
+                return { success: false, error: errorHandler(error) };
+            }
+        },
+    });
+}
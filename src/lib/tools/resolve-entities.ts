@@ -0,0 +1,42 @@
+import { tool } from "ai";
+import { z } from "zod";
+import { resolveEntities } from "@/lib/entity-resolver";
+import { errorHandler } from "@/lib/errors";
+import type { Category, Destination } from "@/lib/ithaka/schemas";
+import { logger } from "@/lib/telemetry/logger";
+
+export interface ReferenceEntities {
+    destinations: Destination[];
+    categories: Category[];
+}
+
+/** Resolves place and activity names against this turn's reference data. */
+export function createResolveEntitiesTool(reference: ReferenceEntities) {
+    return tool({
+        description:
+            "Map destination and category names the user mentioned (nicknames, typos, synonyms, Arabic) to Ithaka IDs for searchListings. Returns ranked candidates with a 0-1 confidence.",
+        parameters: z.object({
+            destinations: z
+                .array(z.string())
+                .optional()
+                .describe("Place names as the user wrote them, e.g. Alex"),
+            categories: z
+                .array(z.string())
+                .optional()
+                .describe(
+                    "Activity types as the user wrote them, e.g. extreme adventure"
+                ),
+        }),
+        execute: async ({ destinations, categories }) => {
+            try {
+                return {
+                    success: true,
+                    ...resolveEntities({ destinations, categories }, reference),
+                };
+            } catch (error) {
+                logger.error("❌ Entity resolution error", { error });
+                return { success: false, error: errorHandler(error) };
+            }
+        },
+    });
+}
@@ -0,0 +1,454 @@
+import { tool } from "ai";
+import { z } from "zod";
+import {
+    backendCurrency,
+    convert,
+    parseBudget,
+    SUPPORTED_CURRENCIES,
+    type ExchangeRates,
+} from "@/lib/currency";
+import {
+    checkDateRange,
+    dateContext,
+    describeDateRange,
+    resolveDateExpression,
+    type DateContext,
+    type DateRange,
+} from "@/lib/date-range";
+import { errorHandler } from "@/lib/errors";
+import type { Locale } from "@/lib/i18n";
+import {
+    DEFAULT_SEARCH_PAGE_SIZE,
+    ithakaClient,
+} from "@/lib/ithaka/client";
+import { IthakaAbortedError } from "@/lib/ithaka/errors";
+import { compactListing, type ListingLookup } from "@/lib/listings";
+import {
+    searchWithRelaxation,
+    type ListingQuery,
+} from "@/lib/search-relaxation";
+import { logger } from "@/lib/telemetry/logger";
+import type { ReferenceEntities } from "@/lib/tools/resolve-entities";
+
+function toSearchParams({
+    search,
+    categories,
+    destinations,
+    min_price,
+    max_price,
+    sort_by,
+    from_date,
+    to_date,
+    page,
+    per_page,
+}: ListingQuery) {
+    const params = new URLSearchParams();
+
+    // Add array parameters
+    destinations?.forEach((id) => {
+        params.append("destinations[]", id.toString());
+    });
+    categories?.forEach((id) => {
+        params.append("categories[]", id.toString());
+    });
+
+    // Add other parameters
+    if (search) {
+        params.set("search", search);
+    }
+    if (min_price) {
+        params.set("min_price", min_price.toString());
+    }
+    if (max_price) {
+        params.set("max_price", max_price.toString());
+    }
+    if (sort_by) {
+        params.set("sort_by", sort_by);
+    }
+    if (from_date) {
+        params.set("from_date", from_date.toString());
+    }
+    if (to_date) {
+        params.set("to_date", to_date.toString());
+    }
+    if (page) {
+        params.set("page", page.toString());
+    }
+    if (per_page) {
+        params.set("per_page", per_page.toString());
+    }
+
+    logger.debug("🔍 Listing search query", { query: params.toString() });
+    return params;
+}
+
+const MAX_PAGE_SIZE = 20;
+
+// An empty list means the reference data did not load, not that no ID is
+// valid: those IDs go to the backend unchecked.
+function unknownIds(ids: number[] | undefined, known: { id: number }[]) {
+    if (known.length === 0) return [];
+    return (ids ?? []).filter((id) => !known.some((entry) => entry.id === id));
+}
+
+const listingQuerySchema = z.object({
+    search: z.string().optional().describe("Free text search query"),
+    categories: z.array(z.number()).optional().describe("Category IDs"),
+    destinations: z.array(z.number()).optional().describe("Destination IDs"),
+    min_price: z
+        .number()
+        .optional()
+        .describe("Minimum price, in price_currency"),
+    max_price: z
+        .number()
+        .optional()
+        .describe("Maximum price, in price_currency"),
+    from_date: z.string().optional().describe("Start date, YYYY-MM-DD"),
+    to_date: z.string().optional().describe("End date, YYYY-MM-DD"),
+    sort_by: z
+        .enum([
+            "price-low-to-high",
+            "price-high-to-low",
+            "best-selling",
+            "top-reviewed",
+        ])
+        .optional()
+        .describe("Sort Options"),
+    page: z.number().int().min(1).optional().describe("Page number, from 1"),
+    per_page: z
+        .number()
+        .int()
+        .min(1)
+        .max(MAX_PAGE_SIZE)
+        .optional()
+        .describe(`Results per page (default ${DEFAULT_SEARCH_PAGE_SIZE})`),
+});
+
+export interface SearchPricing {
+    rates: ExchangeRates;
+    // What the backend filters and prices in.
+    backendCurrency: string;
+    // What the user wants to see; listings get a converted `userPrice`.
+    userCurrency?: string;
+}
+
+class PriceConversionError extends Error {}
+
+/**
+ * Works out the price filter in the backend's currency from explicit
+ * bounds or a budget phrase, in whatever currency the user used. Bounds are
+ * rounded outwards so conversion never excludes a listing at the edge.
+ */
+function backendPriceRange(
+    {
+        min_price,
+        max_price,
+        budget,
+        price_currency,
+    }: {
+        min_price?: number;
+        max_price?: number;
+        budget?: string;
+        price_currency?: string;
+    },
+    pricing: SearchPricing | undefined
+) {
+    const parsed = budget ? parseBudget(budget) : {};
+    const min = min_price ?? parsed.min;
+    const max = max_price ?? parsed.max;
+    const from = price_currency ?? parsed.currency;
+    const to = pricing?.backendCurrency;
+
+    if (!pricing || !to || !from || from === to) {
+        return { min_price: min, max_price: max, conversion: undefined };
+    }
+
+    const toBackend = (amount: number | undefined, round: typeof Math.ceil) => {
+        if (amount === undefined) return undefined;
+        const converted = convert(amount, from, to, pricing.rates);
+        if (converted === undefined) {
+            throw new PriceConversionError(
+                `No exchange rate from ${from} to ${to}`
+            );
+        }
+        return round(converted);
+    };
+    const converted = {
+        min_price: toBackend(min, Math.floor),
+        max_price: toBackend(max, Math.ceil),
+    };
+    return {
+        ...converted,
+        conversion: {
+            requested: { min, max, currency: from },
+            searched: {
+                min: converted.min_price,
+                max: converted.max_price,
+                currency: to,
+            },
+        },
+    };
+}
+
+// Listings without a currency are priced in the backend's; saying so here
+// keeps the cards from having to guess.
+function withUserPrice(
+    listing: ReturnType<typeof compactListing>,
+    pricing: SearchPricing | undefined
+) {
+    const to = pricing?.userCurrency;
+    const from = listing.currency ?? pricing?.backendCurrency;
+    const priced = { ...listing, currency: from };
+    if (!pricing || !to || !from || from === to || listing.price === undefined) {
+        return priced;
+    }
+    const amount = convert(listing.price, from, to, pricing.rates);
+    return amount === undefined
+        ? priced
+        : {
+              ...priced,
+              userPrice: { amount: Math.round(amount), currency: to },
+          };
+}
+
+/**
+ * Fills from_date/to_date from a date phrase when they are not given and
+ * checks the result against today, so a bad range comes back as an error
+ * the model can relay instead of an empty search.
+ */
+function searchDates(
+    {
+        from_date,
+        to_date,
+        dates,
+    }: { from_date?: string; to_date?: string; dates?: string },
+    context: DateContext
+):
+    | {
+          from_date?: string;
+          to_date?: string;
+          dateRange?: Partial<DateRange> & { description: string };
+      }
+    | string {
+    let resolved: DateRange | undefined;
+    if (dates && !from_date && !to_date) {
+        resolved = resolveDateExpression(dates, context);
+        if (!resolved) {
+            return `Could not work out dates from "${dates}". Ask the user for specific dates.`;
+        }
+        from_date = resolved.from;
+        to_date = resolved.to;
+    }
+
+    const invalid = checkDateRange({ from_date, to_date }, context);
+    if (invalid) return invalid;
+    if (!from_date && !to_date) return {};
+
+    const single = (date: string) => describeDateRange(date, date);
+    const dateRange = resolved ?? {
+        from: from_date,
+        to: to_date,
+        description:
+            from_date && to_date
+                ? describeDateRange(from_date, to_date)
+                : from_date
+                  ? `From ${single(from_date)}`
+                  : `Until ${single(to_date!)}`,
+    };
+    return { from_date, to_date, dateRange };
+}
+
+// A cursor is the next page's full query, so "show me more" needs nothing
+// but the cursor from the previous result.
+function encodeCursor(query: ListingQuery) {
+    return Buffer.from(JSON.stringify(query)).toString("base64url");
+}
+
+function decodeCursor(cursor: string) {
+    try {
+        const parsed = listingQuerySchema.safeParse(
+            JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"))
+        );
+        return parsed.success ? parsed.data : undefined;
+    } catch {
+        return undefined;
+    }
+}
+
+export interface SearchListingsOptions {
+    // Known destinations and categories; made-up IDs are rejected.
+    reference?: ReferenceEntities;
+    pricing?: SearchPricing;
+    // Today's date in the user's timezone, for date phrases.
+    dates?: DateContext;
+    // Language of the turn; listing titles and destinations use it where
+    // the backend has translations.
+    locale?: Locale;
+}
+
+/**
+ * `listings` records every result so later tools (e.g. the itinerary) can
+ * resolve listing IDs from this turn's searches. With `reference`, made-up
+ * destination or category IDs are rejected instead of silently returning
+ * nothing. Empty searches are retried with looser filters and the result's
+ * `relaxed` list says what was loosened.
+ *
+ * Results are paged and trimmed to `compactListing`; getListingDetails
+ * fetches the rest for a single listing.
+ */
+export function createSearchListingsTool(
+    listings: ListingLookup,
+    { reference, pricing, dates, locale }: SearchListingsOptions = {}
+) {
+    return tool({
+        description:
+            "Search for available tours, activities, and experiences based on location, date, and type. Results are paged; pass `cursor` from a previous result to get the next page.",
+        parameters: listingQuerySchema.extend({
+            price_currency: z
+                .enum(SUPPORTED_CURRENCIES)
+                .optional()
+                .describe(
+                    "Currency of min_price/max_price or budget as the user stated it; defaults to the listings' currency"
+                ),
+            budget: z
+                .string()
+                .optional()
+                .describe(
+                    'The budget in the user\'s own words when they gave one, e.g. "under 500 EGP" or "$50-100". Used when min_price/max_price are not set.'
+                ),
+            dates: z
+                .string()
+                .optional()
+                .describe(
+                    'When the user wants to go, in their own words, e.g. "next weekend", "mid-March" or "during Eid". Resolved to from_date/to_date when those are not set.'
+                ),
+            cursor: z
+                .string()
+                .optional()
+                .describe(
+                    "nextCursor from a previous result; other filters are then ignored"
+                ),
+        }),
+        execute: async (
+            { cursor, budget, price_currency, dates: dateText, ...filters },
+            { abortSignal }
+        ) => {
+            const when =
+                cursor === undefined
+                    ? searchDates(
+                          { ...filters, dates: dateText },
+                          dates ?? dateContext()
+                      )
+                    : {};
+            if (typeof when === "string") {
+                return { success: false, error: when };
+            }
+
+            const client = ithakaClient.withSignal(abortSignal);
+            try {
+                const price =
+                    cursor === undefined
+                        ? backendPriceRange(
+                              { ...filters, budget, price_currency },
+                              pricing
+                          )
+                        : undefined;
+                const query = cursor
+                    ? decodeCursor(cursor)
+                    : {
+                          ...filters,
+                          min_price: price?.min_price,
+                          max_price: price?.max_price,
+                          from_date: when.from_date,
+                          to_date: when.to_date,
+                      };
+                if (!query) {
+                    return {
+                        success: false,
+                        error: "Invalid cursor. Repeat the search with filters instead.",
+                    };
+                }
+
+                const unknown = reference && {
+                    destinations: unknownIds(
+                        query.destinations,
+                        reference.destinations
+                    ),
+                    categories: unknownIds(
+                        query.categories,
+                        reference.categories
+                    ),
+                };
+                if (
+                    unknown &&
+                    unknown.destinations.length + unknown.categories.length > 0
+                ) {
+                    return {
+                        success: false,
+                        error: "Unknown destination or category IDs. Use resolveEntities to look up the right IDs.",
+                        unknown,
+                    };
+                }
+
+                const response = await searchWithRelaxation(
+                    query,
+                    (attempt) =>
+                        client.searchListings(toSearchParams(attempt)),
+                    { categories: reference?.categories }
+                );
+                // Remembered with the currency their prices are in, so
+                // the itinerary and comparisons never have to guess it.
+                const currency =
+                    pricing?.backendCurrency ?? backendCurrency();
+                listings.remember(
+                    response.listings.map((raw) => ({
+                        ...raw,
+                        currency: raw.currency ?? currency,
+                    }))
+                );
+                if (response.relaxed.length > 0) {
+                    logger.info("Search relaxed", {
+                        relaxed: response.relaxed.map((r) => r.constraint),
+                        results: response.listings.length,
+                    });
+                }
+
+                const page = response.current_page ?? query.page ?? 1;
+                const lastPage = response.last_page ?? page;
+                const hasMore = page < lastPage;
+                return {
+                    success: true,
+                    listings: response.listings.map((raw) =>
+                        withUserPrice(compactListing(raw, locale), pricing)
+                    ),
+                    total: response.total ?? response.listings.length,
+                    page,
+                    lastPage,
+                    perPage: response.per_page ?? response.listings.length,
+                    hasMore,
+                    ...(hasMore && {
+                        nextCursor: encodeCursor({
+                            ...response.appliedQuery,
+                            page: page + 1,
+                        }),
+                    }),
+                    ...(when.dateRange && { dateRange: when.dateRange }),
+                    ...(price?.conversion && {
+                        priceConversion: price.conversion,
+                    }),
+                    relaxed: response.relaxed,
+                    appliedQuery: response.appliedQuery,
+                };
+            } catch (error) {
+                if (
+                    error instanceof PriceConversionError ||
+                    error instanceof IthakaAbortedError
+                ) {
+                    return { success: false, error: error.message };
+                }
+                logger.error("❌ Search error", { error });
+                return { success: false, error: errorHandler(error) };
+            }
+        },
+    });
+}
@@ -0,0 +1,36 @@
+import { readCookie } from "@/lib/cookies";
+
+/**
+ * An anonymous, server-issued visitor ID that owns the visitor's chats.
+ * `src/middleware.ts` sets it on the first request; the client never
+ * chooses it, so knowing a chat ID is not enough to open someone's chat.
+ */
+export const VISITOR_COOKIE = "ithaka.visitor";
+
+// Set by the middleware on a request whose visitor ID it just issued.
+export const NEW_VISITOR_HEADER = "x-ithaka-new-visitor";
+
+const VISITOR_ID_PATTERN =
+    /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+export function isValidVisitorId(id: unknown): id is string {
+    return typeof id === "string" && VISITOR_ID_PATTERN.test(id);
+}
+
+export function newVisitorId() {
+    return crypto.randomUUID();
+}
+
+/** The visitor ID from the request's cookies, if it carries a valid one. */
+export function visitorId(req: Request) {
+    const value = readCookie(req, VISITOR_COOKIE);
+    return isValidVisitorId(value) ? value : undefined;
+}
+
+/**
+ * The visitor ID, if the client sent it back rather than the middleware
+ * issuing it for this request. Clients that drop cookies never have one.
+ */
+export function returningVisitorId(req: Request) {
+    return req.headers.has(NEW_VISITOR_HEADER) ? undefined : visitorId(req);
+}
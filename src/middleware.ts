@@ -0,0 +1,39 @@
+import { NextResponse, type NextRequest } from "next/server";
+import {
+    isValidVisitorId,
+    NEW_VISITOR_HEADER,
+    newVisitorId,
+    VISITOR_COOKIE,
+} from "@/lib/visitor";
+
+/**
+ * Issues the visitor cookie that chats are scoped to. A new ID is also
+ * added to the request itself, so the route handling the very first
+ * request already sees it, and marked as new for the rate limits.
+ */
+export function middleware(req: NextRequest) {
+    if (isValidVisitorId(req.cookies.get(VISITOR_COOKIE)?.value)) {
+        return NextResponse.next();
+    }
+    const id = newVisitorId();
+    req.cookies.set(VISITOR_COOKIE, id);
+    req.headers.set(NEW_VISITOR_HEADER, "1");
+    const res = NextResponse.next({ request: { headers: req.headers } });
+    // The embedded widget runs in a third-party iframe, which only gets
+    // cookies that are SameSite=None, Secure and, in Chrome, partitioned.
+    const crossSite = process.env.NODE_ENV === "production";
+    res.cookies.set(VISITOR_COOKIE, id, {
+        httpOnly: true,
+        path: "/",
+        maxAge: 60 * 60 * 24 * 365,
+        sameSite: crossSite ? "none" : "lax",
+        secure: crossSite,
+        partitioned: crossSite,
+    });
+    return res;
+}
+
+export const config = {
+    // Pages and the chat APIs; static assets don't need a visitor.
+    matcher: ["/((?!_next/|favicon.ico|widget.js).*)"],
+};